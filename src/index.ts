@@ -4,20 +4,32 @@ import defaultSettings from "samepage/utils/defaultSettings";
 import setupSharePageWithNotebook from "./protocols/sharePageWithNotebook";
 import setupNotebookQuerying from "./protocols/notebookQuerying";
 import renderOverlay from "./components/renderOverlay";
+import registerExtension from "./utils/registerExtension";
 import type { SettingSchemaDesc } from "@logseq/libs/dist/LSPlugin";
 
 const setupUserSettings = () => {
   logseq.useSettingsSchema(
-    defaultSettings.map(
-      (s) =>
-        ({
-          key: s.id,
-          type: s.type,
-          title: s.name,
-          description: s.description,
-          default: s.default,
-        } as SettingSchemaDesc)
-    )
+    defaultSettings
+      .map(
+        (s) =>
+          ({
+            key: s.id,
+            type: s.type,
+            title: s.name,
+            description: s.description,
+            default: s.default,
+          } as SettingSchemaDesc)
+      )
+      .concat([
+        {
+          key: "snapshot-queries",
+          type: "boolean",
+          title: "Snapshot Queries",
+          description:
+            "Share the current results of queries as references, so that other apps can display them.",
+          default: false,
+        },
+      ])
   );
 };
 
@@ -79,11 +91,14 @@ const main = async () => {
   setupUserSettings();
   const unloadSamePageClient = await setupClient();
   const unloadProtocols = setupProtocols();
+  // Other plugins live in their own frames, so the shared host window is where they find us
+  window.parent.samePageLogseq = { registerExtension };
 
   logseq.beforeunload(async () => {
     Array.from(
       window.parent.document.head.querySelectorAll(`style[data-ref=samepage]`)
     ).forEach((s) => s.remove());
+    delete window.parent.samePageLogseq;
     unloadProtocols();
     unloadSamePageClient();
   });
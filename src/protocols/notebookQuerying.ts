@@ -30,7 +30,7 @@ const setup = () => {
   logseq.App.onMacroRendererSlotted((e) => {
     const { slot, payload } = e;
     const [method, ...rest] = payload.arguments;
-    if (method === "samepage-reference") {
+    if (method === "samepage-reference" || method === "samepage-embed") {
       const [notebookUuid, notebookPageId] = rest.join(",").split(":");
       const unmount = renderOverlay({
         Overlay: ExternalNotebookReference,
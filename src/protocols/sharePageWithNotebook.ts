@@ -6,94 +6,163 @@ import type {
   BlockEntity,
   BlockUUIDTuple,
 } from "@logseq/libs/dist/LSPlugin.user";
-import blockParser from "../utils/blockParser";
+import { removeHiddenProperties } from "../utils/blockParser";
+import toAtJson, { BlockDiagnostic, flattenTree } from "../utils/toAtJson";
+import { loadParseCache } from "../utils/parseCache";
+import diffBlockTree from "../utils/diffBlockTree";
+import applyBlockTreeOperations from "../utils/applyBlockTreeOperations";
+import { deleteBlockIds, getBlockIds, saveBlockIds } from "../utils/blockIds";
 import { v4 } from "uuid";
 import datefnsFormat from "date-fns/format";
 import atJsonToLogseq from "../utils/atJsonToLogseq";
+import atJsonToOrg from "../utils/atJsonToOrg";
+import { applyHeading, extractHeading } from "../utils/blockHeading";
 import { has as isShared } from "samepage/utils/localAutomergeDb";
+import dispatchAppEvent from "samepage/internal/dispatchAppEvent";
 
 const UUID_REGEX =
   /^[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}$/i;
 const isBlock = (notebookPageId: string) => UUID_REGEX.test(notebookPageId);
 
-const toAtJson = ({
-  nodes = [],
-}: {
-  nodes?: BlockEntity[];
-}): SamePageSchema => {
-  return flattenTree(nodes)
-    .map((n) => (index: number) => {
-      const { content: _content, annotations } = blockParser(n.content);
-      const content = `${
-        _content.length ? _content : String.fromCharCode(0)
-      }\n`;
-      const end = content.length + index;
-      const blockAnnotations: SamePageSchema["annotations"] = [
-        {
-          start: index,
-          end,
-          attributes: {
-            level: n.level || 0,
-            viewType: "bullet",
-          },
-          type: "block",
-        },
-      ];
-      return {
-        content,
-        annotations: blockAnnotations.concat(
-          annotations.map((a) => ({
-            ...a,
-            start: a.start + index,
-            end: a.end + index,
-          }))
-        ),
-      };
-    })
-    .reduce(
-      (p, c) => {
-        const { content: pc, annotations: pa } = p;
-        const { content: cc, annotations: ca } = c(pc.length);
-        return {
-          content: `${pc}${cc}`,
-          annotations: pa.concat(ca),
-        };
-      },
-      {
-        content: "",
-        annotations: [] as SamePageSchema["annotations"],
-      }
-    );
-};
-
-const flattenTree = <T extends { children?: (T | BlockUUIDTuple)[] }>(
-  tree: T[]
-): T[] =>
-  tree.flatMap((t) => [
-    t,
-    ...flattenTree(
-      (t.children || []).filter((c): c is T => typeof c === "object")
-    ),
-  ]);
-
-const updateLevel = (t: BlockEntity, level: number) => {
-  t.level = level;
-  (t.children || []).forEach(
-    (t) => !Array.isArray(t) && updateLevel(t, level + 1)
-  );
-};
-
 const isContentBlock = (
   b: BlockEntity | null | BlockUUIDTuple
 ): b is BlockEntity => {
   return (
     !!b &&
     !Array.isArray(b) &&
-    (!b.content || !!b.content.replace(/[a-z]+:: [^\n]+\n?/g, ""))
+    (!b.content || !!removeHiddenProperties(b.content))
   );
 };
 
-const calculateState = async (notebookPageId: string) => {
+const getContentBlocks = (notebookPageId: string) =>
+  (isBlock(notebookPageId)
+    ? window.logseq.Editor.getBlock(notebookPageId, {
+        includeChildren: true,
+      }).then((b) => b?.children || [])
+    : window.logseq.Editor.getPageBlocksTree(notebookPageId)
+  ).then((tree) => flattenTree((tree || []).filter(isContentBlock)));
+
+const getAdvancedQuery = (edn: string) => {
+  const start = edn.search(/:query\s+[[(]/);
+  if (start < 0) return "";
+  const open = start + edn.slice(start).search(/[[(]/);
+  let depth = 0;
+  for (let i = open; i < edn.length; i++) {
+    if (edn[i] === "[" || edn[i] === "(") depth++;
+    else if ((edn[i] === "]" || edn[i] === ")") && --depth === 0)
+      return edn.slice(open, i + 1);
+  }
+  return "";
+};
+
+const runQuery = async (query: string) => {
+  const advanced = /^#\+BEGIN_QUERY\n([\s\S]*)\n#\+END_QUERY$/.exec(query);
+  const dsl = advanced
+    ? getAdvancedQuery(advanced[1])
+    : /^{{query\s+([\s\S]*)}}$/.exec(query)?.[1] || "";
+  if (!dsl) return undefined;
+  const results: unknown = await (dsl.startsWith("[")
+    ? window.logseq.DB.datascriptQuery(dsl)
+    : window.logseq.DB.q(dsl));
+  return [results]
+    .flat(Infinity)
+    .filter((r): r is Record<string, string> => !!r && typeof r === "object")
+    .map((r) =>
+      typeof r.content === "string"
+        ? r.uuid
+        : r["original-name"] || r.originalName || r.name
+    )
+    .filter((id) => !!id);
+};
+
+// Other apps can't run Logseq queries, so they receive the current results as references instead
+export const snapshotQueries = async (
+  state: SamePageSchema
+): Promise<SamePageSchema> => {
+  const queries = state.annotations.filter(
+    (a) => a.type === "custom" && a.attributes.name === "query"
+  );
+  const snapshots = await Promise.all(
+    queries.map((q) =>
+      runQuery(q.appAttributes?.logseq?.query || "").catch(() => undefined)
+    )
+  );
+  return queries.reduceRight((p, query, index) => {
+    const results = snapshots[index];
+    if (!results) return p;
+    const content = results.length
+      ? results.map(() => String.fromCharCode(0)).join("\n")
+      : String.fromCharCode(0);
+    const delta = content.length - (query.end - query.start);
+    const references: SamePageSchema["annotations"] = results.map(
+      (notebookPageId, i) => ({
+        type: "reference",
+        start: query.start + i * 2,
+        end: query.start + i * 2 + 1,
+        attributes: {
+          notebookPageId,
+          notebookUuid: window.logseq.settings?.["uuid"],
+        },
+      })
+    );
+    return {
+      content: `${p.content.slice(0, query.start)}${content}${p.content.slice(
+        query.end
+      )}`,
+      annotations: p.annotations.flatMap((a) =>
+        a.start === query.start &&
+        a.end === query.end &&
+        a.type === "custom" &&
+        a.attributes.name === "query"
+          ? [{ ...a, end: a.start + content.length }, ...references]
+          : a.start >= query.start &&
+            a.end <= query.end &&
+            (a.start > query.start || a.end < query.end)
+          ? []
+          : [
+              {
+                ...a,
+                start: a.start >= query.end ? a.start + delta : a.start,
+                end: a.end >= query.end ? a.end + delta : a.end,
+              },
+            ]
+      ),
+    };
+  }, state);
+};
+
+// calculateState runs on every change, so each way a block is broken is only reported once per session
+const reportedDiagnostics = new Set<string>();
+
+const reportDiagnostic = ({
+  blockUuid,
+  reason,
+  input,
+  position,
+  tokenType,
+}: BlockDiagnostic) => {
+  // Keyed by reason rather than input, so typing in a broken block doesn't report it again
+  const key = `${blockUuid}:${reason}`;
+  if (reportedDiagnostics.has(key)) return;
+  reportedDiagnostics.add(key);
+  dispatchAppEvent({
+    type: "log",
+    id: `block-parser-${reason}`,
+    content: `Part of block ${blockUuid} was shared as plain text because it could not be parsed (${reason}${
+      tokenType ? ` on ${tokenType}` : ""
+    } at position ${position} of ${JSON.stringify(input)})`,
+    intent: "warning",
+  });
+};
+
+const calculateState = async (
+  notebookPageId: string,
+  {
+    snapshotQueries: shouldSnapshotQueries = !!window.logseq.settings?.[
+      "snapshot-queries"
+    ],
+  }: { snapshotQueries?: boolean } = {}
+) => {
   const nodes = (
     await (isBlock(notebookPageId)
       ? window.logseq.Editor.getBlock(notebookPageId, {
@@ -103,10 +172,21 @@ const calculateState = async (notebookPageId: string) => {
           (tree) => tree || []
         ))
   ).filter(isContentBlock);
+  const { toSamePage } = await getBlockIds(notebookPageId);
+  const blockIds = new Map(
+    flattenTree(nodes).map((n) => [n.uuid, toSamePage.get(n.uuid) || v4()])
+  );
+  await saveBlockIds(
+    notebookPageId,
+    Array.from(blockIds).map(([uuid, id]) => [id, uuid])
+  );
+  const atJson = toAtJson({
+    nodes,
+    onDiagnostic: reportDiagnostic,
+    blockIds,
+  });
   return {
-    ...toAtJson({
-      nodes,
-    }),
+    ...(shouldSnapshotQueries ? await snapshotQueries(atJson) : atJson),
     nodes,
   };
 };
@@ -114,6 +194,10 @@ const calculateState = async (notebookPageId: string) => {
 type SamepageNode = {
   content: string;
   level: number;
+  heading?: string;
+  headingForm?: string;
+  id?: string;
+  uuid?: string;
   annotation: {
     start: number;
     end: number;
@@ -121,18 +205,32 @@ type SamepageNode = {
   };
 };
 
-const applyState = async (notebookPageId: string, state: SamePageSchema) => {
-  const rootPageUuid = UUID_REGEX.test(notebookPageId)
+export const applyState = async (
+  notebookPageId: string,
+  state: SamePageSchema
+) => {
+  const root = await (isBlock(notebookPageId)
+    ? window.logseq.Editor.getBlock(notebookPageId)
+    : window.logseq.Editor.getPage(notebookPageId));
+  const rootPageUuid = isBlock(notebookPageId)
     ? notebookPageId
-    : await window.logseq.Editor.getPage(notebookPageId).then(
-        (p) => p?.uuid || ""
-      );
+    : root?.uuid || "";
+  const renderBlock = root?.format === "org" ? atJsonToOrg : atJsonToLogseq;
+  const { toLogseq } = await getBlockIds(notebookPageId);
   const expectedTree: SamepageNode[] = [];
   state.annotations.forEach((anno) => {
     if (anno.type === "block") {
       const currentBlock = {
         content: state.content.slice(anno.start, anno.end).replace(/\n$/, ""),
         level: anno.attributes.level,
+        // Other apps describe headings under their own key, so fall back to theirs
+        heading:
+          anno.appAttributes?.logseq?.heading ||
+          Object.values(anno.appAttributes || {}).find((a) => a.heading)
+            ?.heading,
+        headingForm: anno.appAttributes?.logseq?.headingForm,
+        id: anno.appAttributes?.samepage?.id,
+        uuid: toLogseq.get(anno.appAttributes?.samepage?.id || ""),
         annotation: {
           start: anno.start,
           end: anno.end,
@@ -157,121 +255,228 @@ const applyState = async (notebookPageId: string, state: SamePageSchema) => {
       start: a.start - offset,
       end: a.end - offset,
     }));
-    block.content = atJsonToLogseq({
-      content: block.content,
-      annotations: normalizedAnnotations,
+    block.content = applyHeading({
+      content: renderBlock({
+        content: block.content,
+        annotations: normalizedAnnotations,
+      }),
+      heading: block.heading,
+      headingForm: block.headingForm,
+      format: root?.format,
     });
   });
-  const actualTree = await (isBlock(notebookPageId)
-    ? window.logseq.Editor.getBlock(notebookPageId, {
-        includeChildren: true,
-      }).then((b) => b?.children || [])
-    : window.logseq.Editor.getPageBlocksTree(notebookPageId)
-  ).then((tree) => flattenTree((tree || []).filter(isContentBlock)));
+  const actualTree = await getContentBlocks(notebookPageId);
+  // Only uuids still on this page are kept, since a block that moved elsewhere can't be inserted again
+  const actualUuids = new Set(actualTree.map((node) => node.uuid));
+  expectedTree.forEach((block) => {
+    if (block.uuid && !actualUuids.has(block.uuid)) block.uuid = undefined;
+  });
 
-  const promises = expectedTree
-    .map((expectedNode, order) => () => {
-      const getParent = () => {
-        const parentOrder =
-          expectedNode.level === 1
-            ? -1
-            : actualTree
-                .slice(0, order)
-                .map((node, originalIndex) => ({
-                  level: node.level || 1,
-                  originalIndex,
-                }))
-                .reverse()
-                .concat([{ level: 0, originalIndex: -1 }])
-                .find(({ level }) => level < expectedNode.level)?.originalIndex;
-        return {
-          parent:
-            typeof parentOrder === "undefined" || parentOrder < 0
-              ? rootPageUuid
-              : actualTree[parentOrder].uuid,
-          parentOrder,
-          level:
-            typeof parentOrder === "undefined" || parentOrder < 0
-              ? 0
-              : actualTree[parentOrder].level || 0,
-        };
+  const { ids, operations } = diffBlockTree({
+    expected: expectedTree,
+    actual: actualTree.map((node) => {
+      // Headings are hidden properties too, so put them back the way the expected blocks have them
+      const { content, heading, headingForm } = extractHeading(node);
+      return {
+        uuid: node.uuid,
+        content: applyHeading({
+          content: removeHiddenProperties(content),
+          heading,
+          headingForm,
+          format: root?.format,
+        }),
+        level: node.level || 1,
       };
-      if (actualTree.length > order) {
-        const actualNode = actualTree[order] as BlockEntity;
-        const blockUuid = actualNode.uuid;
-        return window.logseq.Editor.updateBlock(blockUuid, expectedNode.content)
-          .catch((e) =>
-            Promise.reject(new Error(`Failed to update block: ${e.message}`))
-          )
-          .then(() => {
-            if (actualNode.level !== expectedNode.level) {
-              const { parent, parentOrder } = getParent();
-              const previousSibling = actualTree
-                .slice(
-                  typeof parentOrder !== "undefined" && parentOrder >= 0
-                    ? parentOrder
-                    : 0,
-                  order
-                )
-                .reverse()
-                .find((a) => a.level === expectedNode.level);
-              (previousSibling
-                ? window.logseq.Editor.moveBlock(
-                    actualNode.uuid,
-                    previousSibling.uuid
-                  )
-                : window.logseq.Editor.moveBlock(actualNode.uuid, parent, {
-                    children: true,
-                  })
-              )
-                .then(() => {
-                  updateLevel(actualNode, expectedNode.level);
-                })
-                .catch((e) =>
-                  Promise.reject(
-                    new Error(`Failed to move block: ${e.message}`)
-                  )
-                );
-            }
-            actualNode.content = expectedNode.content;
-            return Promise.resolve();
+    }),
+    root: rootPageUuid,
+  });
+  const page = isBlock(notebookPageId) ? undefined : rootPageUuid;
+  // The blocks as they were before are the snapshot to restore if any step fails
+  const restore = () =>
+    getContentBlocks(notebookPageId).then((currentTree) =>
+      applyBlockTreeOperations({
+        operations: diffBlockTree({
+          expected: actualTree.map((node) => ({
+            uuid: node.uuid,
+            content: node.content,
+            level: node.level || 1,
+          })),
+          actual: currentTree.map((node) => ({
+            uuid: node.uuid,
+            content: node.content,
+            level: node.level || 1,
+          })),
+          root: rootPageUuid,
+        }).operations,
+        editor: window.logseq.Editor,
+        page,
+      })
+    );
+
+  return applyBlockTreeOperations({
+    operations,
+    editor: window.logseq.Editor,
+    page,
+  })
+    .catch((e: Error) =>
+      restore()
+        .then(() => "so the page was left as it was")
+        .catch(
+          (restoreError: Error) =>
+            `and restoring the page failed too: ${restoreError.message}`
+        )
+        .then((outcome) => {
+          dispatchAppEvent({
+            type: "log",
+            id: "apply-state-failure",
+            content: `Failed to apply changes to ${notebookPageId}, ${outcome}. ${e.message}`,
+            intent: "error",
           });
-      } else {
-        const { parent, level } = getParent();
+          return Promise.reject(e);
+        })
+    )
+    .then((inserted) =>
+      saveBlockIds(
+        notebookPageId,
+        expectedTree.flatMap(({ id }, order): [string, string][] => {
+          const uuid = inserted[ids[order]] || ids[order];
+          return id && !uuid.startsWith("new:") ? [[id, uuid]] : [];
+        })
+      )
+    );
+};
+
+export const REFRESH_DELAY = 500;
 
-        return window.logseq.Editor.appendBlockInPage(
-          parent,
-          expectedNode.content
+type RefreshContent = (args: {
+  notebookPageId: string;
+  label: string;
+}) => Promise<void>;
+
+// Sends local edits of shared pages to collaborators, except the ones made by applying their state
+export const listenForChanges = ({
+  refreshContent,
+}: {
+  refreshContent: RefreshContent;
+}) => {
+  // Changes made by applying a collaborator's state aren't sent back to them
+  const applyingPages = new Map<string, number>();
+  // Local edits that landed while their page was being applied, with the label to send them under
+  const deferredRefreshes = new Map<string, string>();
+
+  // Every block and page that could be shared on its own, from the changed blocks up to their pages
+  const getChangedNotebookPageIds = (blocks: BlockEntity[]) => {
+    const lookups = new Map<string, Promise<string[]>>();
+    const memoize = (key: string, lookup: () => Promise<string[]>) => {
+      const cached = lookups.get(key);
+      if (cached) return cached;
+      const result = lookup();
+      lookups.set(key, result);
+      return result;
+    };
+    const getPageName = (id: number) =>
+      memoize(`page-${id}`, () =>
+        window.logseq.Editor.getPage(id).then((p) =>
+          p ? [p.originalName] : []
         )
-          .then(async (b) => {
-            // this b has no level
-            if (b) {
-              if (b) {
-                b.level = level + 1;
-                actualTree.push(b);
-              }
-            }
-          })
-          .catch((e) =>
-            Promise.reject(new Error(`Failed to append block: ${e.message}`))
-          );
-      }
-    })
-    .concat(
-      actualTree
-        .slice(expectedTree.length)
-        .map(
-          (a) => () =>
-            window.logseq.Editor.removeBlock(a.uuid).catch((e) =>
-              Promise.reject(new Error(`Failed to remove block: ${e.message}`))
+      );
+    const getParents = (b: BlockEntity): Promise<string[]> =>
+      b.page.id === b.parent.id
+        ? getPageName(b.page.id)
+        : memoize(`block-${b.parent.id}`, () =>
+            window.logseq.Editor.getBlock(b.parent.id).then((parent) =>
+              parent
+                ? getParents(parent).then((ids) => ids.concat(parent.uuid))
+                : []
             )
+          );
+    return Promise.all(
+      blocks.map((b) =>
+        b.originalName
+          ? [b.originalName as string]
+          : b.page && b.parent
+          ? getParents(b).then((ids) => ids.concat(b.uuid))
+          : []
+      )
+    ).then((ids) => Array.from(new Set(ids.flat())));
+  };
+
+  const refresh = (notebookPageId: string, label: string) => {
+    if (applyingPages.has(notebookPageId)) {
+      deferredRefreshes.set(notebookPageId, label);
+    } else {
+      refreshContent({ notebookPageId, label });
+    }
+  };
+
+  // A single edit often lands as several transactions, so they are sent as one change
+  const refreshTimeouts: Record<string, number> = {};
+  const scheduleRefresh = (notebookPageId: string, label: string) => {
+    window.clearTimeout(refreshTimeouts[notebookPageId]);
+    refreshTimeouts[notebookPageId] = window.setTimeout(() => {
+      delete refreshTimeouts[notebookPageId];
+      refresh(notebookPageId, label);
+    }, REFRESH_DELAY);
+  };
+
+  const offChanged = window.logseq.DB.onChanged(({ blocks, txMeta }) =>
+    getChangedNotebookPageIds(blocks)
+      .then((notebookPageIds) =>
+        Promise.all(
+          notebookPageIds.map((notebookPageId) =>
+            isShared(notebookPageId).then((shared) => {
+              if (!shared) return;
+              const label = txMeta?.outlinerOp || "Change";
+              if (applyingPages.has(notebookPageId)) {
+                deferredRefreshes.set(notebookPageId, label);
+              } else {
+                scheduleRefresh(notebookPageId, label);
+              }
+            })
+          )
         )
-    );
+      )
+      .catch((e: Error) =>
+        dispatchAppEvent({
+          type: "log",
+          id: "changed-blocks-failure",
+          content: `Failed to send local changes to collaborators: ${e.message}`,
+          intent: "error",
+        })
+      )
+  );
 
-  return promises.reduce((p, c) => p.then(c), Promise.resolve<unknown>(""));
+  return {
+    applyState: (notebookPageId: string, state: SamePageSchema) => {
+      applyingPages.set(
+        notebookPageId,
+        (applyingPages.get(notebookPageId) || 0) + 1
+      );
+      return applyState(notebookPageId, state).finally(() =>
+        // Logseq reports the changes made while applying after they resolve
+        window.setTimeout(() => {
+          const count = (applyingPages.get(notebookPageId) || 1) - 1;
+          if (count) {
+            applyingPages.set(notebookPageId, count);
+            return;
+          }
+          applyingPages.delete(notebookPageId);
+          const label = deferredRefreshes.get(notebookPageId);
+          if (typeof label === "undefined") return;
+          deferredRefreshes.delete(notebookPageId);
+          refresh(notebookPageId, label);
+        }, REFRESH_DELAY)
+      );
+    },
+    unlisten: () => {
+      offChanged();
+      Object.values(refreshTimeouts).forEach((t) => window.clearTimeout(t));
+    },
+  };
 };
 
 const setupSharePageWithNotebook = () => {
+  loadParseCache().catch(() => undefined);
   const { unload, refreshContent } = loadSharePageWithNotebook({
     getCurrentNotebookPageId: () =>
       logseq.Editor.getCurrentPage().then((p) =>
@@ -283,7 +488,7 @@ const setupSharePageWithNotebook = () => {
               ) || ""
           : datefnsFormat(new Date(), "MMM do, yyyy")
       ),
-    decodeState: (id, state) => applyState(id, state.$body),
+    decodeState: (id, state) => changes.applyState(id, state.$body),
     ensurePageByTitle: async ({ content: title }) => {
       const p = await logseq.Editor.getPage(title);
       if (p) return { notebookPageId: p.originalName, preExisting: true };
@@ -294,7 +499,8 @@ const setupSharePageWithNotebook = () => {
       await window.logseq.Editor.createPage(title, {}, { redirect: false });
       return { notebookPageId: title, preExisting: false };
     },
-    deletePage: (title) => window.logseq.Editor.deletePage(title),
+    deletePage: (title) =>
+      window.logseq.Editor.deletePage(title).then(() => deleteBlockIds(title)),
     openPage: (title) => {
       // as usual, logseq is givin trouble...
       return new Promise((resolve) =>
@@ -420,145 +626,10 @@ const setupSharePageWithNotebook = () => {
     },
   });
 
-  const getParents = (id: number | string): Promise<string[]> =>
-    window.logseq.Editor.getBlock(id).then((b) => {
-      if (b) {
-        if (b.page.id === b.parent.id) {
-          return window.logseq.Editor.getPage(b.page.id).then((p) =>
-            p ? [p.originalName] : []
-          );
-        } else {
-          return getParents(b.parent.id).then((parents) =>
-            parents.concat([b.uuid])
-          );
-        }
-      }
-      return [];
-    });
-
-  const forEachNotebookPageId = async ({
-    blockUuid,
-    callback,
-  }: {
-    blockUuid: string;
-    callback: (notebookPageId: string) => void;
-  }) => {
-    const notebookPageIds = await getParents(blockUuid);
-    notebookPageIds.forEach((n) => {
-      isShared(n).then((s) => s && callback(n));
-    });
-  };
-
-  const refreshState = ({
-    blockUuid,
-    notebookPageId,
-    changeMethod,
-    label,
-  }: {
-    label: string;
-    blockUuid: string;
-    notebookPageId: string;
-    changeMethod: (callback: () => {}) => () => void;
-  }) => {
-    refreshRef = changeMethod(async () => {
-      refreshContent({ notebookPageId, label });
-    });
-  };
-
-  let refreshRef: (() => void) | undefined;
-  const clearRefreshRef = () => {
-    if (refreshRef) {
-      refreshRef?.();
-      refreshRef = undefined;
-    }
-  };
-  const bodyKeydownListener = async (e: KeyboardEvent) => {
-    const el = e.target as HTMLElement;
-    if (e.metaKey) return;
-    if (/^Arrow/.test(e.key)) return;
-    if (el.tagName === "TEXTAREA" && el.classList.contains("normal-block")) {
-      const blockUuid =
-        el.id.match(
-          /^edit-block-\d+-([a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12})$/
-        )?.[1] || "";
-      forEachNotebookPageId({
-        blockUuid,
-        callback(notebookPageId) {
-          clearRefreshRef();
-          refreshState({
-            notebookPageId,
-            label: `Key Presses - ${e.key}`,
-            changeMethod: (c) => window.logseq.DB.onBlockChanged(blockUuid, c),
-            blockUuid,
-          });
-        },
-      });
-    }
-  };
-  window.parent.document.body.addEventListener("keydown", bodyKeydownListener);
-
-  const bodyPasteListener = async (e: ClipboardEvent) => {
-    const el = e.target as HTMLElement;
-    if (el.tagName === "TEXTAREA" && el.classList.contains("normal-block")) {
-      const blockUuid =
-        el.id.match(
-          /^edit-block-\d+-([a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12})$/
-        )?.[1] || "";
-      forEachNotebookPageId({
-        blockUuid,
-        callback(notebookPageId) {
-          clearRefreshRef();
-          refreshState({
-            label: `Paste`,
-            notebookPageId,
-            blockUuid,
-            changeMethod: (c) => window.logseq.DB.onBlockChanged(blockUuid, c),
-          });
-        },
-      });
-    }
-  };
-  window.parent.document.body.addEventListener("paste", bodyPasteListener);
-
-  const dragEndListener = async (e: DragEvent) => {
-    const el = e.target as HTMLElement;
-    if (el.tagName === "SPAN" && el.hasAttribute("blockid")) {
-      const blockUuid = el.getAttribute("blockid");
-      if (blockUuid) {
-        forEachNotebookPageId({
-          blockUuid,
-          callback(notebookPageId) {
-            clearRefreshRef();
-            refreshState({
-              label: `Drag Block`,
-              blockUuid,
-              notebookPageId,
-              changeMethod: (c) =>
-                window.logseq.DB.onChanged(({ blocks }) => {
-                  if (blocks.some((b) => b.uuid === blockUuid)) {
-                    c();
-                  }
-                }),
-            });
-          },
-        });
-      }
-    }
-  };
-  // for some reason, dragend doesn't fire sometimes...
-  window.parent.document.body.addEventListener("dragstart", dragEndListener);
+  const changes = listenForChanges({ refreshContent });
 
   return () => {
-    clearRefreshRef();
-    window.parent.document.body.removeEventListener(
-      "keydown",
-      bodyKeydownListener
-    );
-    window.parent.document.body.removeEventListener("paste", bodyPasteListener);
-    window.parent.document.body.removeEventListener(
-      "dragstart",
-      dragEndListener
-    );
+    changes.unlisten();
     idObserver.disconnect();
     unload();
   };
@@ -0,0 +1,208 @@
+import type {
+  BlockEntity,
+  BlockIdentity,
+  BlockUUIDTuple,
+  IBatchBlock,
+  IEditorProxy,
+} from "@logseq/libs/dist/LSPlugin.user";
+import type { BlockTreeOperation, InsertedBlock } from "./diffBlockTree";
+import { flattenTree } from "./toAtJson";
+
+type Editor = Pick<
+  IEditorProxy,
+  | "appendBlockInPage"
+  | "getBlock"
+  | "getPage"
+  | "getPageBlocksTree"
+  | "insertBlock"
+  | "moveBlock"
+  | "removeBlock"
+  | "updateBlock"
+> & {
+  // Logseq takes the uuid of each block from its `id` property with keepUUID, which these typings predate
+  insertBatchBlock: (
+    srcBlock: BlockIdentity,
+    batch: IBatchBlock[],
+    opts?: Partial<{ before: boolean; sibling: boolean; keepUUID: boolean }>
+  ) => Promise<BlockEntity[] | null>;
+};
+
+// Logseq returns inserted blocks as a flat list, while reading them back gives a tree
+const flattenEntities = (
+  blocks: (BlockEntity | BlockUUIDTuple)[]
+): BlockEntity[] =>
+  blocks.flatMap((b) =>
+    Array.isArray(b) ? [] : [b, ...flattenEntities(b.children || [])]
+  );
+
+/**
+ * Runs the operations planned by `diffBlockTree` one after the other and resolves
+ * with the uuid of each inserted block. Trees of new blocks go through a single
+ * `insertBatchBlock`, so receiving a whole page doesn't re-render Logseq per block.
+ * `page` is the uuid of the page when the blocks don't live under another block.
+ */
+const applyBlockTreeOperations = ({
+  operations,
+  editor,
+  page,
+}: {
+  operations: BlockTreeOperation[];
+  editor: Editor;
+  page?: string;
+}) => {
+  const inserted: Record<string, string> = {};
+  const resolve = (id: string) => inserted[id] || id;
+  // Only blocks coming back keep their uuid, since pinning one writes an `id::` line into the file
+  const toBatch = (blocks: InsertedBlock[]): IBatchBlock[] =>
+    blocks.map(({ content, children, uuid }) => ({
+      content,
+      ...(uuid ? { properties: { id: uuid } } : {}),
+      ...(children.length ? { children: toBatch(children) } : {}),
+    }));
+  // Logseq doesn't always return what it inserted, so the blocks are found next to the target instead
+  const readBatch = (
+    target: string,
+    count: number,
+    { before, sibling }: { before?: boolean; sibling: boolean }
+  ): Promise<(BlockEntity | BlockUUIDTuple)[]> =>
+    editor
+      .getBlock(target, { includeChildren: !sibling })
+      .then((block): Promise<(BlockEntity | BlockUUIDTuple)[]> => {
+        if (!block)
+          return Promise.reject(new Error(`Block ${target} is missing`));
+        if (!sibling)
+          return Promise.resolve((block.children || []).slice(0, count));
+        const siblings =
+          block.parent.id === block.page.id
+            ? editor
+                .getPage(block.page.id)
+                .then((p) => (p ? editor.getPageBlocksTree(p.uuid) : []))
+            : editor
+                .getBlock(block.parent.id, { includeChildren: true })
+                .then((p) => p?.children || []);
+        return siblings.then((children) => {
+          const index = children.findIndex(
+            (c) => !Array.isArray(c) && c.uuid === target
+          );
+          if (index < 0) {
+            return Promise.reject(new Error(`Block ${target} is missing`));
+          }
+          return before
+            ? children.slice(Math.max(index - count, 0), index)
+            : children.slice(index + 1, index + 1 + count);
+        });
+      });
+  const insertBatch = (
+    target: string,
+    blocks: InsertedBlock[],
+    opts: { before?: boolean; sibling: boolean }
+  ) =>
+    blocks.length
+      ? editor
+          .insertBatchBlock(target, toBatch(blocks), {
+            ...opts,
+            keepUUID: true,
+          })
+          .then((result) =>
+            result?.length ? result : readBatch(target, blocks.length, opts)
+          )
+          .then((result) => {
+            const entities = flattenEntities(result);
+            const expected = flattenTree(blocks);
+            if (entities.length < expected.length) {
+              return Promise.reject(new Error("Logseq returned no block"));
+            }
+            expected.forEach(({ id, uuid }, i) => {
+              inserted[id] = uuid || entities[i].uuid;
+            });
+          })
+      : Promise.resolve();
+
+  const insert = (
+    op: Extract<BlockTreeOperation, { type: "insert" }>
+  ): Promise<unknown> => {
+    const target = resolve(op.target);
+    const [first, ...rest] = op.blocks;
+    if (op.relation === "child" && target === page && first.uuid) {
+      // appendBlockInPage can't keep a uuid, so the blocks go before a placeholder removed afterwards
+      return editor.appendBlockInPage(target, "").then((b) => {
+        if (!b) return Promise.reject(new Error(`Page ${target} is missing`));
+        return insertBatch(b.uuid, op.blocks, {
+          before: true,
+          sibling: true,
+        }).then(() => editor.removeBlock(b.uuid));
+      });
+    }
+    if (op.relation === "child" && target === page) {
+      // An empty page has no block to insert the rest next to until the first one exists
+      return editor.appendBlockInPage(target, first.content).then((b) => {
+        if (!b) return Promise.reject(new Error(`Page ${target} is missing`));
+        inserted[first.id] = b.uuid;
+        return insertBatch(b.uuid, first.children, { sibling: false }).then(
+          () => insertBatch(b.uuid, rest, { sibling: true })
+        );
+      });
+    }
+    const opts = {
+      before: op.relation === "before",
+      sibling: op.relation !== "child",
+    };
+    if (rest.length || first.children.length || first.uuid) {
+      return insertBatch(target, op.blocks, opts);
+    }
+    return editor.insertBlock(target, first.content, opts).then((b) => {
+      if (!b) return Promise.reject(new Error("Logseq returned no block"));
+      inserted[first.id] = b.uuid;
+    });
+  };
+
+  const promises = operations.map((op) => () => {
+    if (op.type === "update") {
+      return editor
+        .updateBlock(op.id, op.content)
+        .catch((e) =>
+          Promise.reject(
+            new Error(`Failed to update block ${op.id}: ${e.message}`)
+          )
+        );
+    }
+    if (op.type === "remove") {
+      return editor
+        .removeBlock(op.id)
+        .catch((e) =>
+          Promise.reject(
+            new Error(`Failed to remove block ${op.id}: ${e.message}`)
+          )
+        );
+    }
+    if (op.type === "move") {
+      return editor
+        .moveBlock(op.id, resolve(op.target), {
+          before: op.relation === "before",
+          children: op.relation === "child",
+        })
+        .catch((e) =>
+          Promise.reject(
+            new Error(`Failed to move block ${op.id}: ${e.message}`)
+          )
+        );
+    }
+    // Blocks that are new to Logseq don't have a uuid to go by, so they are named by their content
+    const [{ uuid, content }] = op.blocks;
+    return insert(op).catch((e) =>
+      Promise.reject(
+        new Error(
+          `Failed to insert block ${
+            uuid || JSON.stringify(content.slice(0, 50))
+          } ${op.relation} ${resolve(op.target)}: ${e.message}`
+        )
+      )
+    );
+  });
+
+  return promises
+    .reduce((p, c) => p.then(c), Promise.resolve<unknown>(""))
+    .then(() => inserted);
+};
+
+export default applyBlockTreeOperations;
@@ -1,95 +1,524 @@
 import { InitialSchema } from "samepage/internal/types";
 import renderAtJson from "samepage/utils/renderAtJson";
 
-const UUID_REGEX =
+type ApplyAnnotation = Parameters<typeof renderAtJson>[0]["applyAnnotation"];
+export type AnnotationRenderers = {
+  [k in keyof ApplyAnnotation]-?: Extract<
+    ApplyAnnotation[k],
+    (args: never) => unknown
+  >;
+};
+
+export const UUID_REGEX =
   /[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}/;
 
-const atJsonToLogseq = (state: InitialSchema) => {
-  return renderAtJson({
-    state,
-    applyAnnotation: {
-      bold: ({ content, attributes }) => {
-        const validDelimiters = new Set(["**", "__"]);
-        const delimiter = attributes?.delimiter || "**";
-        const prefix = validDelimiters.has(delimiter) ? delimiter : "**";
-        return {
-          prefix,
-          suffix: attributes?.open ? "" : prefix,
+export const DONE_MARKERS = new Set(["DONE", "CANCELED", "CANCELLED"]);
+
+// Inline HTML that Logseq renders, keyed by the custom annotation each tag maps to
+export const HTML_TAGS: Record<string, string> = {
+  underline: "u",
+  keyboard: "kbd",
+  superscript: "sup",
+  subscript: "sub",
+};
+
+export const ESCAPABLE_CHARACTERS = /[\\`*_{}[\]()#+\-.!^~$|>:=]/;
+
+// A delimiter only needs escaping when the text around it would otherwise parse as formatting
+const ESCAPE_RULES: { construct?: RegExp; delimiter: RegExp }[] = [
+  { construct: /\*\*[\s\S]*\*\*/, delimiter: /\*\*/g },
+  { construct: /__[\s\S]*__/, delimiter: /__/g },
+  {
+    construct: /(?:^|(?<=\s))\*(?!\s)[\s\S]*(?<!\s)\*(?=\s|$)/,
+    delimiter: /(?:^|(?<=\s))\*(?!\s)|(?<!\s)\*(?=\s|$)/g,
+  },
+  {
+    construct: /(?:^|(?<=\s))_(?!\s)[\s\S]*(?<!\s)_(?=\s|$)/,
+    delimiter: /(?:^|(?<=\s))_(?!\s)|(?<!\s)_(?=\s|$)/g,
+  },
+  { construct: /~~[\s\S]*~~/, delimiter: /~~/g },
+  { construct: /\^\^[\s\S]*\^\^/, delimiter: /\^\^/g },
+  { construct: /\[\[[\s\S]*\]\]/, delimiter: /\[\[/g },
+  { construct: /\(\([\s\S]*\)\)/, delimiter: /\(\(/g },
+  { delimiter: /\[(?=[^\]]*\]\([^)]*\)|\^[^\]\s]+\])/g },
+  { construct: /`[^`\n]+`|```[\s\S]*```/, delimiter: /`/g },
+  {
+    construct: /\$(?!\s)[^$\n]+(?<!\s)\$(?!\d)|\$\$[\s\S]+\$\$/,
+    delimiter: /\$/g,
+  },
+  {
+    delimiter: new RegExp(
+      String.raw`\\(?=${ESCAPABLE_CHARACTERS.source})|#(?=[\w.\-[])|^#(?=#{0,5} )|(?<=(?:^|\n)[a-zA-Z][\w.-]*):(?=:)|(?:^|(?<=\n))>(?= )`,
+      "g"
+    ),
+  },
+];
+
+const isVerbatim = (a: InitialSchema["annotations"][number], text: string) =>
+  a.type === "code" ||
+  (a.type === "link" && text === a.attributes.href) ||
+  (a.type === "custom" &&
+    [
+      "property",
+      "inline-math",
+      "display-math",
+      "query",
+      "footnote",
+      "verbatim",
+    ].includes(a.attributes.name));
+
+const customRenderers: Record<string, AnnotationRenderers["custom"]> = {};
+
+export const registerCustomRenderer = (
+  name: string,
+  render: AnnotationRenderers["custom"]
+) => {
+  customRenderers[name] = render;
+  return () => {
+    if (customRenderers[name] === render) delete customRenderers[name];
+  };
+};
+
+export const applyAnnotation: Partial<AnnotationRenderers> = {
+  bold: ({ attributes }) => {
+    const validDelimiters = new Set(["**", "__"]);
+    const delimiter = attributes?.delimiter || "**";
+    const prefix = validDelimiters.has(delimiter) ? delimiter : "**";
+    return {
+      prefix,
+      suffix: attributes?.open ? "" : prefix,
+    };
+  },
+  italics: ({ attributes }) => {
+    const validDelimiters = new Set(["*", "_"]);
+    const delimiter = attributes?.delimiter || "_";
+    const prefix = validDelimiters.has(delimiter) ? delimiter : "_";
+    return {
+      prefix,
+      suffix: attributes?.open ? "" : prefix,
+    };
+  },
+  highlighting: ({ attributes, appAttributes: { kind } }) =>
+    kind === "cloze"
+      ? {
+          prefix: "{{cloze ",
+          suffix: "}}",
+        }
+      : {
+          prefix: attributes?.delimiter === "<mark>" ? "<mark>" : "^^",
+          suffix: attributes?.delimiter === "<mark>" ? "</mark>" : "^^",
+        },
+  strikethrough: () => ({
+    prefix: "~~",
+    suffix: `~~`,
+  }),
+  // Only links Logseq parsed from a bare url are written back without brackets
+  link: ({ attributes: { href }, content, appAttributes: { kind, bare } }) =>
+    kind
+      ? {
+          prefix: `{{${kind} ${href}}}`,
+          suffix: "",
+          replace: true,
+        }
+      : bare && content === href
+      ? {
+          prefix: "",
+          suffix: "",
+        }
+      : {
+          prefix: "[",
+          suffix: `](${href})`,
           replace: content === String.fromCharCode(0),
-        };
-      },
-      italics: ({ content, attributes }) => {
-        const validDelimiters = new Set(["*", "_"]);
-        const delimiter = attributes?.delimiter || "**";
-        const prefix = validDelimiters.has(delimiter) ? delimiter : "**";
+        },
+  image: ({ attributes: { src }, content }) => ({
+    prefix: "![",
+    suffix: `](${src})`,
+    replace: content === String.fromCharCode(0),
+  }),
+  reference: ({
+    attributes: { notebookPageId, notebookUuid },
+    content,
+    appAttributes: { kind },
+  }) => {
+    const replace = content === String.fromCharCode(0);
+    if (kind === "embed") {
+      return {
+        prefix: "",
+        suffix:
+          notebookUuid !== window.logseq.settings["uuid"]
+            ? `{{renderer samepage-embed,${notebookUuid}:${notebookPageId}}}`
+            : UUID_REGEX.test(notebookPageId)
+            ? `{{embed ((${notebookPageId}))}}`
+            : `{{embed [[${notebookPageId}]]}}`,
+        replace: true,
+      };
+    }
+    if (notebookUuid === window.logseq.settings["uuid"]) {
+      if (UUID_REGEX.test(notebookPageId)) {
         return {
-          prefix,
-          suffix: attributes?.open ? "" : prefix,
-          replace: content === String.fromCharCode(0),
+          prefix: replace ? "" : "[",
+          suffix: `${replace ? "" : "]("}((${notebookPageId}))${
+            replace ? "" : ")"
+          }`,
+          replace,
         };
-      },
-      highlighting: ({ content }) => ({
-        prefix: "^^",
-        suffix: `^^`,
-        replace: content === String.fromCharCode(0),
-      }),
-      strikethrough: ({ content }) => ({
-        prefix: "~~",
-        suffix: `~~`,
-        replace: content === String.fromCharCode(0),
-      }),
-      link: ({ attributes: { href }, content }) => ({
-        prefix: "[",
-        suffix: `](${href})`,
-        replace: content === String.fromCharCode(0),
-      }),
-      image: ({ attributes: { src }, content }) => ({
-        prefix: "![",
-        suffix: `](${src})`,
-        replace: content === String.fromCharCode(0),
-      }),
-      reference: ({
-        attributes: { notebookPageId, notebookUuid },
-        content,
-        appAttributes: { kind },
-      }) => {
-        const replace = content === String.fromCharCode(0);
-        if (notebookUuid === window.logseq.settings["uuid"]) {
-          if (UUID_REGEX.test(notebookPageId)) {
-            return {
-              prefix: replace ? "" : "[",
-              suffix: `${replace ? "" : "]("}((${notebookPageId}))${
-                replace ? "" : ")"
-              }`,
-              replace,
-            };
+      }
+      return {
+        prefix: replace ? "" : "[",
+        suffix: `${replace ? "" : "]("}${
+          kind === "hash-wikilink"
+            ? `#[[${notebookPageId}]]`
+            : kind === "hash"
+            ? `#${notebookPageId}`
+            : `[[${notebookPageId}]]`
+        }${replace ? "" : ")"}`,
+        replace,
+      };
+    }
+    return {
+      prefix: "",
+      suffix: `{{renderer samepage-reference,${notebookUuid}:${notebookPageId}}}`,
+      replace,
+    };
+  },
+  custom: (args) => {
+    const {
+      attributes: { name },
+      appAttributes: { key, marker, align, delimiter, type, label, query },
+      content,
+    } = args;
+    const registered = customRenderers[name];
+    if (registered) return registered(args);
+    if (HTML_TAGS[name]) {
+      return {
+        prefix: `<${HTML_TAGS[name]}>`,
+        suffix: `</${HTML_TAGS[name]}>`,
+      };
+    }
+    if (name === "query") {
+      return {
+        prefix: query || content,
+        suffix: "",
+        replace: true,
+      };
+    }
+    if (name === "footnote") {
+      return {
+        prefix: "[^",
+        suffix: "]",
+      };
+    }
+    if (name === "footnote-definition") {
+      return {
+        prefix: `[^${label || "1"}]: `,
+        suffix: "",
+      };
+    }
+    if (name === "footnote-break") {
+      return /\s/.test(content)
+        ? {
+            prefix: "\n",
+            suffix: "",
+            replace: true,
           }
-          return {
-            prefix: replace ? "" : "[",
-            suffix: `${replace ? "" : "]("}${
-              kind === "hash-wikilink"
-                ? `#[[${notebookPageId}]]`
-                : kind === "hash"
-                ? `#${notebookPageId}`
-                : `[[${notebookPageId}]]`
-            }${replace ? "" : ")"}`,
-            replace,
+        : {
+            prefix: "",
+            suffix: "\n",
           };
+    }
+    if (name === "quote") {
+      return delimiter === "#+BEGIN_QUOTE"
+        ? {
+            prefix: "#+BEGIN_QUOTE\n",
+            suffix: "\n#+END_QUOTE",
+          }
+        : {
+            prefix: "> ",
+            suffix: "",
+          };
+    }
+    if (name === "escape") {
+      return {
+        prefix: "\\",
+        suffix: "",
+      };
+    }
+    if (name === "quote-line") {
+      return {
+        prefix: "",
+        suffix: "> ",
+      };
+    }
+    if (name === "callout") {
+      const kind = (type || "note").toUpperCase();
+      return {
+        prefix: `#+BEGIN_${kind}\n`,
+        suffix: `\n#+END_${kind}`,
+      };
+    }
+    if (name === "table-row") {
+      const delimiterRow = align
+        ? `\n| ${align
+            .split(",")
+            .map((a) =>
+              a === "center"
+                ? ":---:"
+                : a === "left"
+                ? ":---"
+                : a === "right"
+                ? "---:"
+                : "---"
+            )
+            .join(" | ")} |`
+        : "";
+      return {
+        prefix: "| ",
+        suffix: ` |${delimiterRow}`,
+      };
+    }
+    if (name === "table-cell") {
+      return {
+        prefix: "",
+        suffix: "",
+      };
+    }
+    if (name === "todo" || name === "done") {
+      const isDone = name === "done";
+      const replace = content === String.fromCharCode(0);
+      const prefix =
+        marker && DONE_MARKERS.has(marker) === isDone
+          ? marker
+          : isDone
+          ? "DONE"
+          : "TODO";
+      return {
+        prefix: replace ? prefix : `${prefix} `,
+        suffix: "",
+        replace,
+      };
+    }
+    if (name === "priority") {
+      return {
+        prefix: "[#",
+        suffix: "]",
+      };
+    }
+    if (name === "scheduled" || name === "deadline") {
+      return {
+        prefix: `${name.toUpperCase()}: <`,
+        suffix: ">",
+      };
+    }
+    if (name === "inline-math" || name === "display-math") {
+      const delimiter = name === "inline-math" ? "$" : "$$";
+      return {
+        prefix: delimiter,
+        suffix: delimiter,
+      };
+    }
+    if (name === "property" && key && !content.startsWith(`${key}::`)) {
+      return {
+        prefix: `${key}:: `,
+        suffix: "",
+      };
+    }
+    return {
+      prefix: "",
+      suffix: "",
+    };
+  },
+  code: ({ attributes: { language, ticks } }) => {
+    if (ticks) {
+      return {
+        prefix: "`".repeat(ticks),
+        suffix: "`".repeat(ticks),
+      };
+    }
+    return {
+      prefix: `\`\`\`${language}\n`,
+      suffix: "```",
+    };
+  },
+};
+
+// Every line of a Markdown quote needs its own marker, so each line break inside one gets an annotation
+const withQuoteLines = (state: InitialSchema): InitialSchema => ({
+  ...state,
+  annotations: state.annotations.concat(
+    state.annotations
+      .filter(
+        (a) =>
+          a.type === "custom" &&
+          a.attributes.name === "quote" &&
+          !a.appAttributes?.logseq?.delimiter
+      )
+      .flatMap((a) =>
+        Array.from(state.content.slice(a.start, a.end).matchAll(/\n/g)).map(
+          (m): InitialSchema["annotations"][number] => ({
+            type: "custom",
+            start: a.start + (m.index || 0),
+            end: a.start + (m.index || 0) + 1,
+            attributes: { name: "quote-line" },
+          })
+        )
+      )
+  ),
+});
+
+// Query results are a snapshot for other apps, so Logseq gets the original query back in their place
+export const withoutQueryResults = (state: InitialSchema): InitialSchema => {
+  const queries = state.annotations.filter(
+    (a) => a.type === "custom" && a.attributes.name === "query"
+  );
+  return {
+    ...state,
+    annotations: state.annotations.filter(
+      (a) =>
+        queries.includes(a) ||
+        !queries.some((q) => q.start <= a.start && a.end <= q.end)
+    ),
+  };
+};
+
+// Footnote definitions only parse at the start of a line, so one placed mid-line gets a line break before it
+const withFootnoteBreaks = (state: InitialSchema): InitialSchema => ({
+  ...state,
+  annotations: state.annotations.concat(
+    state.annotations
+      .filter(
+        (a) =>
+          a.type === "custom" &&
+          a.attributes.name === "footnote-definition" &&
+          a.start > 0 &&
+          state.content.charAt(a.start - 1) !== "\n"
+      )
+      .map((a): InitialSchema["annotations"][number] => ({
+        type: "custom",
+        start: a.start - 1,
+        end: a.start,
+        attributes: { name: "footnote-break" },
+      }))
+  ),
+});
+
+// Tables from other apps don't carry an alignment, yet Logseq only reads a table with a delimiter row after its header
+const withTableDelimiters = (state: InitialSchema): InitialSchema => {
+  const isCustom = (a: InitialSchema["annotations"][number], name: string) =>
+    a.type === "custom" && a.attributes.name === name;
+  const headers = new Set(
+    state.annotations
+      .filter((a) => isCustom(a, "table"))
+      .map((table) =>
+        state.annotations.find(
+          (a) => isCustom(a, "table-row") && a.start === table.start
+        )
+      )
+  );
+  return {
+    ...state,
+    annotations: state.annotations.map((a) => {
+      if (!headers.has(a) || a.appAttributes?.logseq?.align) return a;
+      const cells = state.annotations.filter(
+        (c) => isCustom(c, "table-cell") && c.start >= a.start && c.end <= a.end
+      );
+      return {
+        ...a,
+        appAttributes: {
+          ...a.appAttributes,
+          logseq: {
+            ...a.appAttributes?.logseq,
+            align: cells.map(() => "none").join(",") || "none",
+          },
+        },
+      };
+    }),
+  };
+};
+
+// Renderers only see Logseq's app attributes, so the shared footnote label is handed over to them
+export const withFootnoteLabels = (state: InitialSchema): InitialSchema => ({
+  ...state,
+  annotations: state.annotations.map((a) => {
+    const label = a.appAttributes?.samepage?.label;
+    return label
+      ? {
+          ...a,
+          appAttributes: {
+            ...a.appAttributes,
+            logseq: { ...a.appAttributes?.logseq, label },
+          },
         }
-        return {
-          prefix: "",
-          suffix: `{{renderer samepage-reference,${notebookUuid}:${notebookPageId}}}`,
-          replace,
-        };
-      },
-      code: ({ attributes: { language } }) => {
-        return {
-          prefix: `\`\`\`${language}\n`,
-          suffix: "```",
-        };
-      },
-    },
-  });
+      : a;
+  }),
+});
+
+// Text from other apps may contain our delimiters, which are escaped so they stay literal
+const withEscapes = (state: InitialSchema): InitialSchema => {
+  const text = state.annotations
+    .filter((a) => isVerbatim(a, state.content.slice(a.start, a.end)))
+    .reduce(
+      (p, a) =>
+        `${p.slice(0, a.start)}${String.fromCharCode(0).repeat(
+          a.end - a.start
+        )}${p.slice(a.end)}`,
+      state.content
+    );
+  const escaped = new Set(
+    state.annotations
+      .filter((a) => a.type === "custom" && a.attributes.name === "escape")
+      .map((a) => a.start)
+  );
+  const positions = new Set(
+    ESCAPE_RULES.filter(
+      ({ construct }) => !construct || construct.test(text)
+    ).flatMap(({ delimiter }) =>
+      Array.from(text.matchAll(delimiter)).map((m) => m.index || 0)
+    )
+  );
+  // Pipes inside a cell would otherwise split it
+  state.annotations
+    .filter((a) => a.type === "custom" && a.attributes.name === "table-cell")
+    .forEach((a) => {
+      for (let index = a.start; index < a.end; index++) {
+        if (text.charAt(index) === "|") positions.add(index);
+      }
+    });
+  return {
+    ...state,
+    annotations: state.annotations.concat(
+      Array.from(positions)
+        .filter((index) => !escaped.has(index))
+        .sort((a, b) => a - b)
+        .map((index): InitialSchema["annotations"][number] => ({
+          type: "custom",
+          start: index,
+          end: index + 1,
+          attributes: { name: "escape" },
+        }))
+    ),
+  };
+};
+
+// renderAtJson shifts annotations in place, so it works on copies to leave the caller's state intact
+export const copyAnnotations = (state: InitialSchema): InitialSchema => ({
+  ...state,
+  annotations: state.annotations.map((a) => ({ ...a })),
+});
+
+// Emphasis keeps the placeholder of empty content, since a reference sharing its span still has to replace it
+const atJsonToLogseq = (state: InitialSchema) => {
+  return renderAtJson({
+    state: withEscapes(
+      withTableDelimiters(
+        withFootnoteLabels(
+          withFootnoteBreaks(
+            withQuoteLines(withoutQueryResults(copyAnnotations(state)))
+          )
+        )
+      )
+    ),
+    applyAnnotation,
+  }).replace(new RegExp(String.fromCharCode(0), "g"), "");
 };
 
 export default atJsonToLogseq;
@@ -0,0 +1,109 @@
+import { InitialSchema } from "samepage/internal/types";
+import renderAtJson from "samepage/utils/renderAtJson";
+import {
+  applyAnnotation,
+  copyAnnotations,
+  UUID_REGEX,
+  withFootnoteLabels,
+  withoutQueryResults,
+} from "./atJsonToLogseq";
+
+// Emphasis keeps the placeholder of empty content, like atJsonToLogseq, so a reference sharing its span can replace it
+const atJsonToOrg = (state: InitialSchema) => {
+  return renderAtJson({
+    state: withFootnoteLabels(withoutQueryResults(copyAnnotations(state))),
+    applyAnnotation: {
+      ...applyAnnotation,
+      bold: ({ attributes }) => ({
+        prefix: "*",
+        suffix: attributes?.open ? "" : "*",
+      }),
+      italics: ({ attributes }) => ({
+        prefix: "/",
+        suffix: attributes?.open ? "" : "/",
+      }),
+      strikethrough: ({ attributes }) => ({
+        prefix: "+",
+        suffix: attributes?.open ? "" : "+",
+      }),
+      link: (args) => {
+        const {
+          attributes: { href },
+          content,
+          appAttributes: { kind },
+        } = args;
+        if (kind) return applyAnnotation.link!(args);
+        const replace = content === String.fromCharCode(0) || content === href;
+        return {
+          prefix: `[[${href}]${replace ? "" : "["}`,
+          suffix: `${replace ? "" : "]"}]`,
+          replace,
+        };
+      },
+      image: ({ attributes: { src }, content }) => {
+        const replace = content === String.fromCharCode(0);
+        return {
+          prefix: `[[${src}]${replace ? "" : "["}`,
+          suffix: `${replace ? "" : "]"}]`,
+          replace,
+        };
+      },
+      reference: (args) => {
+        const {
+          attributes: { notebookPageId, notebookUuid },
+          content,
+          appAttributes: { kind },
+        } = args;
+        if (
+          content !== String.fromCharCode(0) &&
+          kind !== "embed" &&
+          notebookUuid === window.logseq.settings["uuid"] &&
+          !UUID_REGEX.test(notebookPageId)
+        ) {
+          return {
+            prefix: `[[${notebookPageId}][`,
+            suffix: "]]",
+          };
+        }
+        return applyAnnotation.reference!(args);
+      },
+      custom: (args) => {
+        if (args.attributes.name === "underline") {
+          return {
+            prefix: "_",
+            suffix: "_",
+          };
+        }
+        // Backslash escapes are Markdown's, Org text is written as is
+        if (args.attributes.name === "escape") {
+          return {
+            prefix: "",
+            suffix: "",
+          };
+        }
+        if (args.attributes.name === "quote") {
+          return {
+            prefix: "#+BEGIN_QUOTE\n",
+            suffix: "\n#+END_QUOTE",
+          };
+        }
+        return applyAnnotation.custom!(args);
+      },
+      code: ({ attributes: { language, ticks }, appAttributes }) => {
+        if (ticks) {
+          const delimiter = appAttributes.delimiter === "=" ? "=" : "~";
+          return {
+            prefix: delimiter,
+            suffix: delimiter,
+          };
+        }
+        return {
+          prefix: `#+BEGIN_SRC${language ? ` ${language}` : ""}\n`,
+          suffix: "#+END_SRC",
+        };
+      },
+    },
+  }).replace(new RegExp(String.fromCharCode(0), "g"), "");
+};
+
+export default atJsonToOrg;
@@ -0,0 +1,53 @@
+const MARKDOWN_HEADING_REGEX = /^(#{1,6}) /;
+const HEADING_PROPERTY_REGEX = /(?:^|\n)heading:: (true|[1-6])[ \t]*(?=\n|$)/i;
+
+// Headings describe the whole block, so they travel on the block annotation instead of as spans of text
+export const extractHeading = ({
+  content,
+  format,
+}: {
+  content: string;
+  format?: string;
+}) => {
+  const property = HEADING_PROPERTY_REGEX.exec(content);
+  const withoutProperty = property
+    ? content.replace(HEADING_PROPERTY_REGEX, "")
+    : content;
+  const markdown =
+    format === "org" ? null : MARKDOWN_HEADING_REGEX.exec(withoutProperty);
+  const heading = markdown
+    ? `${markdown[1].length}`
+    : property
+    ? property[1].toLowerCase()
+    : "";
+  return {
+    heading,
+    // Which of the two ways to write a heading the block used, so it's written back the same way
+    headingForm: markdown ? "markdown" : property ? "property" : "",
+    content: markdown
+      ? withoutProperty.replace(MARKDOWN_HEADING_REGEX, "")
+      : withoutProperty,
+  };
+};
+
+export const applyHeading = ({
+  content,
+  heading,
+  headingForm,
+  format,
+}: {
+  content: string;
+  heading?: string;
+  headingForm?: string;
+  format?: string;
+}) => {
+  const level = /^h?([1-6])$/i.exec(heading || "")?.[1];
+  if (level && format !== "org" && headingForm !== "property") {
+    return `${"#".repeat(Number(level))} ${content}`;
+  }
+  if (!level && heading?.toLowerCase() !== "true") return content;
+  return content.replace(
+    /^[^\n]*/,
+    (firstLine) => `${firstLine}\nheading:: ${level || "true"}`
+  );
+};
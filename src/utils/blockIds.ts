@@ -0,0 +1,68 @@
+import { IDBPDatabase, openDB } from "idb";
+
+const DB_NAME = "samepage-logseq-block-ids";
+const STORE_NAME = "pages";
+
+export type BlockIds = {
+  // SamePage block id by Logseq block uuid
+  toSamePage: Map<string, string>;
+  // Logseq block uuid by SamePage block id
+  toLogseq: Map<string, string>;
+};
+
+const pages = new Map<string, Promise<BlockIds>>();
+let db: Promise<IDBPDatabase> | undefined;
+
+const getDb = () => {
+  if (typeof indexedDB === "undefined") return undefined;
+  if (!db) {
+    db = openDB(DB_NAME, 1, {
+      upgrade: (database) => {
+        database.createObjectStore(STORE_NAME);
+      },
+    });
+  }
+  return db;
+};
+
+const toBlockIds = (pairs: [string, string][]): BlockIds => ({
+  toSamePage: new Map(pairs.map(([id, uuid]) => [uuid, id])),
+  toLogseq: new Map(pairs),
+});
+
+export const getBlockIds = (notebookPageId: string) => {
+  const cached = pages.get(notebookPageId);
+  if (cached) return cached;
+  const loaded = (
+    getDb()
+      ?.then((d) => d.get(STORE_NAME, notebookPageId))
+      .catch(() => undefined) || Promise.resolve(undefined)
+  ).then((stored: Record<string, string> | undefined) =>
+    toBlockIds(Object.entries(stored || {}))
+  );
+  pages.set(notebookPageId, loaded);
+  return loaded;
+};
+
+// Replaces the page's mapping, so blocks that are no longer on the page are forgotten
+export const saveBlockIds = async (
+  notebookPageId: string,
+  pairs: [string, string][]
+) => {
+  const previous = await getBlockIds(notebookPageId);
+  const unchanged =
+    previous.toLogseq.size === pairs.length &&
+    pairs.every(([id, uuid]) => previous.toLogseq.get(id) === uuid);
+  if (unchanged) return;
+  pages.set(notebookPageId, Promise.resolve(toBlockIds(pairs)));
+  await getDb()
+    ?.then((d) => d.put(STORE_NAME, Object.fromEntries(pairs), notebookPageId))
+    .catch(() => undefined);
+};
+
+export const deleteBlockIds = (notebookPageId: string) => {
+  pages.delete(notebookPageId);
+  return getDb()
+    ?.then((d) => d.delete(STORE_NAME, notebookPageId))
+    .catch(() => undefined);
+};
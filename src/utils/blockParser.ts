@@ -1,4 +1,5 @@
 import { Annotation, InitialSchema } from "samepage/internal/types";
+import moo from "moo";
 import atJsonParser, {
   combineAtJsons,
   createEmptyAtJson,
@@ -7,9 +8,92 @@ import atJsonParser, {
   NULL_TOKEN,
   URL_REGEX,
 } from "samepage/utils/atJsonParser";
-import atJsonToLogseq from "./atJsonToLogseq";
+import renderAtJson from "samepage/utils/renderAtJson";
+import {
+  applyAnnotation,
+  DONE_MARKERS,
+  ESCAPABLE_CHARACTERS,
+  HTML_TAGS,
+} from "./atJsonToLogseq";
 
-type Rule = Parameters<typeof atJsonParser>[0]["grammarRules"][number];
+export type Rule = Parameters<typeof atJsonParser>[0]["grammarRules"][number];
+
+// Logseq and this plugin manage these properties themselves, so they never leave the graph
+export const HIDDEN_PROPERTIES = new Set([
+  "id",
+  "collapsed",
+  "heading",
+  "samepage",
+  "background-color",
+  "created-at",
+  "updated-at",
+  "last-modified-at",
+  "ls-type",
+  "hl-type",
+  "hl-page",
+  "hl-stamp",
+  "hl-color",
+  "query-table",
+  "query-properties",
+  "query-sort-by",
+  "query-sort-desc",
+  "card-last-interval",
+  "card-repeats",
+  "card-last-reviewed",
+  "card-next-schedule",
+  "card-ease-factor",
+  "card-last-score",
+  "logseq.color",
+  "logseq.order-list-type",
+  "logseq.macro-name",
+  "logseq.macro-arguments",
+]);
+
+const isHiddenProperty = (key = "") => HIDDEN_PROPERTIES.has(key.toLowerCase());
+
+// Markdown blocks keep properties as `key:: value` lines, Org blocks in a :PROPERTIES: drawer
+export const removeHiddenProperties = (content: string) =>
+  content
+    .replace(/(?:^|\n)([\w.-]+):: [^\n]+/g, (line, key) =>
+      isHiddenProperty(key) ? "" : line
+    )
+    .replace(
+      /(^|\n)[ \t]*:PROPERTIES:[ \t]*\n([\s\S]*?)\n?[ \t]*:END:[ \t]*(?=\n|$)/gi,
+      (_, start: string, body: string) => {
+        const kept = body
+          .split("\n")
+          .filter(
+            (line) =>
+              line.trim() &&
+              !isHiddenProperty(/^\s*:([\w.-]+):/.exec(line)?.[1])
+          );
+        return kept.length
+          ? `${start}:PROPERTIES:\n${kept.join("\n")}\n:END:`
+          : "";
+      }
+    );
+
+// A reference cut short before its nested reference closes is the other reading of `[[a [[b]]]]`
+const combineWithoutSplitReferences: Rule["postprocess"] = (
+  data,
+  _,
+  reject
+) => {
+  const [first, second] = data as [InitialSchema, InitialSchema];
+  if (
+    second.content.indexOf("]]") > -1 &&
+    first.annotations.some(
+      (a) =>
+        a.type === "reference" &&
+        a.attributes.notebookPageId.includes("[[") &&
+        !a.attributes.notebookPageId.includes("]]")
+    )
+  )
+    return reject;
+  return combineAtJsons([first, second]);
+};
+
+const MEDIA_MACROS = new Set(["video", "youtube", "vimeo"]);
 
 const createTextRule = ({
   type,
@@ -23,6 +107,14 @@ const createTextRule = ({
   postprocess: createTextAtJson,
 });
 
+const splitTableRow = (line: string) =>
+  line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/(?<!\\)\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim());
+
 const baseRules: Rule[] = [
   { name: "main", symbols: [], postprocess: createEmptyAtJson },
   { name: "main", symbols: ["blockElements"], postprocess: head },
@@ -40,20 +132,7 @@ const baseRules: Rule[] = [
   {
     name: "blockElements",
     symbols: ["blockElement", "blockElements"],
-    postprocess: (data, _, reject) => {
-      const [first, second] = data as [InitialSchema, InitialSchema];
-      if (
-        second.content.indexOf("]]") > -1 &&
-        first.annotations.some(
-          (a) =>
-            a.type === "reference" &&
-            a.attributes.notebookPageId.includes("[[") &&
-            !a.attributes.notebookPageId.includes("]]")
-        )
-      )
-        return reject;
-      return combineAtJsons([first, second]);
-    },
+    postprocess: combineWithoutSplitReferences,
   },
 
   {
@@ -96,7 +175,7 @@ const baseRules: Rule[] = [
   {
     name: "noDoubleCarots",
     symbols: ["noDoubleCarot", "noDoubleCarots"],
-    postprocess: combineAtJsons,
+    postprocess: combineWithoutSplitReferences,
   },
   {
     name: "noDoubleCarots",
@@ -151,7 +230,7 @@ const baseRules: Rule[] = [
   {
     name: "noDoubleTildes",
     symbols: ["noDoubleTilde", "noDoubleTildes"],
-    postprocess: combineAtJsons,
+    postprocess: combineWithoutSplitReferences,
   },
   {
     name: "noDoubleTildes",
@@ -211,7 +290,7 @@ const baseRules: Rule[] = [
   {
     name: "noDoubleUnders",
     symbols: ["noDoubleUnder", "noDoubleUnders"],
-    postprocess: combineAtJsons,
+    postprocess: combineWithoutSplitReferences,
   },
   {
     name: "noDoubleUnders",
@@ -271,7 +350,7 @@ const baseRules: Rule[] = [
   {
     name: "noDoubleStars",
     symbols: ["noDoubleStar", "noDoubleStars"],
-    postprocess: combineAtJsons,
+    postprocess: combineWithoutSplitReferences,
   },
   {
     name: "noDoubleStars",
@@ -288,7 +367,7 @@ const baseRules: Rule[] = [
   },
   {
     name: "lastElement",
-    symbols: [{ type: "strike" }],
+    symbols: [{ type: "doubleStar" }],
     postprocess: createTextAtJson,
   },
 
@@ -324,7 +403,7 @@ const baseRules: Rule[] = [
     postprocess: createTextAtJson,
   },
   {
-    name: "blockElements",
+    name: "lastElement",
     symbols: [{ type: "openItalUnder" }, "noCloseItalUnders"],
     postprocess: (data) => {
       const [, json] = data as [moo.Token, InitialSchema];
@@ -334,7 +413,7 @@ const baseRules: Rule[] = [
   {
     name: "noCloseItalUnders",
     symbols: ["noCloseItalUnder", "noCloseItalUnders"],
-    postprocess: combineAtJsons,
+    postprocess: combineWithoutSplitReferences,
   },
   {
     name: "noCloseItalUnders",
@@ -379,7 +458,7 @@ const baseRules: Rule[] = [
     postprocess: createTextAtJson,
   },
   {
-    name: "blockElements",
+    name: "lastElement",
     symbols: [{ type: "openItalStar" }, "noCloseItalStars"],
     postprocess: (data) => {
       const [, json] = data as [moo.Token, InitialSchema];
@@ -389,7 +468,7 @@ const baseRules: Rule[] = [
   {
     name: "noCloseItalStars",
     symbols: ["noCloseItalStar", "noCloseItalStars"],
-    postprocess: combineAtJsons,
+    postprocess: combineWithoutSplitReferences,
   },
   {
     name: "noCloseItalStars",
@@ -462,7 +541,8 @@ const baseRules: Rule[] = [
     ],
     postprocess: (data, _, reject) => {
       const [, token] = data as [moo.Token, InitialSchema, moo.Token];
-      const notebookPageId = atJsonToLogseq(token);
+      // Page names are taken verbatim, so they skip the escaping atJsonToLogseq applies
+      const notebookPageId = renderAtJson({ state: token, applyAnnotation });
       const closing = notebookPageId.indexOf("]]");
       const opening = notebookPageId.indexOf("[[");
       if (closing >= 0 && (opening < 0 || closing < opening)) {
@@ -489,6 +569,19 @@ const baseRules: Rule[] = [
       };
     },
   },
+  {
+    name: "lastElement",
+    symbols: [{ type: "hashDoubleLeftBracket" }],
+    postprocess: createTextAtJson,
+  },
+  {
+    name: "lastElement",
+    symbols: [{ type: "hashDoubleLeftBracket" }, "noDoubleRightBrackets"],
+    postprocess: (data) => {
+      const [, json] = data as [moo.Token, InitialSchema];
+      return combineAtJsons([{ content: "#[[", annotations: [] }, json]);
+    },
+  },
   {
     name: "blockElement",
     symbols: [
@@ -498,7 +591,7 @@ const baseRules: Rule[] = [
     ],
     postprocess: (data, _, reject) => {
       const [, token] = data as [moo.Token, InitialSchema, moo.Token];
-      const notebookPageId = atJsonToLogseq(token);
+      const notebookPageId = renderAtJson({ state: token, applyAnnotation });
       const closing = notebookPageId.indexOf("]]");
       const opening = notebookPageId.indexOf("[[");
       if (closing >= 0 && (opening < 0 || closing < opening)) {
@@ -531,7 +624,7 @@ const baseRules: Rule[] = [
     postprocess: createTextAtJson,
   },
   {
-    name: "blockElements",
+    name: "lastElement",
     symbols: [{ type: "doubleLeftBracket" }, "noDoubleRightBrackets"],
     postprocess: (data) => {
       const [, json] = data as [moo.Token, InitialSchema];
@@ -608,7 +701,108 @@ const baseRules: Rule[] = [
               } as Annotation,
             ],
           };
+        } else if (parts[0] === "samepage-embed") {
+          const [notebookUuid, notebookPageId] = parts
+            .slice(1)
+            .join(",")
+            .split(":");
+          return {
+            content: String.fromCharCode(0),
+            annotations: [
+              {
+                type: "reference",
+                start: 0,
+                end: 1,
+                attributes: {
+                  notebookPageId,
+                  notebookUuid,
+                },
+                appAttributes: {
+                  logseq: {
+                    kind: "embed",
+                  },
+                },
+              } as Annotation,
+            ],
+          };
+        }
+      } else if (macroName === "embed") {
+        const notebookPageId =
+          /^\(\(([^)]+)\)\)$/.exec(macroArgs.trim())?.[1] ||
+          /^\[\[(.+)\]\]$/.exec(macroArgs.trim())?.[1];
+        if (notebookPageId) {
+          return {
+            content: String.fromCharCode(0),
+            annotations: [
+              {
+                type: "reference",
+                start: 0,
+                end: 1,
+                attributes: {
+                  notebookPageId,
+                  notebookUuid: window.logseq.settings["uuid"],
+                },
+                appAttributes: {
+                  logseq: {
+                    kind: "embed",
+                  },
+                },
+              } as Annotation,
+            ],
+          };
         }
+      } else if (macroName === "query") {
+        return {
+          content: token.text,
+          annotations: [
+            {
+              type: "custom",
+              start: 0,
+              end: token.text.length,
+              attributes: { name: "query" },
+              appAttributes: { logseq: { query: token.text } },
+            },
+          ],
+        };
+      } else if (MEDIA_MACROS.has(macroName) && macroArgs.trim()) {
+        const href = macroArgs.trim();
+        return {
+          content: href,
+          annotations: [
+            {
+              type: "link",
+              start: 0,
+              end: href.length,
+              attributes: {
+                href,
+              },
+              appAttributes: {
+                logseq: {
+                  kind: macroName,
+                },
+              },
+            },
+          ],
+        };
+      } else if (macroName === "cloze" && macroArgs.trim()) {
+        const { content, annotations } = parseNested(macroArgs.trim());
+        return {
+          content,
+          annotations: (
+            [
+              {
+                type: "highlighting",
+                start: 0,
+                end: content.length,
+                appAttributes: {
+                  logseq: {
+                    kind: "cloze",
+                  },
+                },
+              },
+            ] as InitialSchema["annotations"]
+          ).concat(annotations),
+        };
       }
       return {
         content: token.text,
@@ -645,6 +839,31 @@ const baseRules: Rule[] = [
       };
     },
   },
+  {
+    name: "blockElement",
+    symbols: [{ type: "url" }],
+    postprocess: (data) => {
+      const { value } = (data as [moo.Token])[0];
+      return {
+        content: value,
+        annotations: [
+          {
+            start: 0,
+            end: value.length,
+            type: "link",
+            attributes: {
+              href: value,
+            },
+            appAttributes: {
+              logseq: {
+                bare: "true",
+              },
+            },
+          },
+        ],
+      };
+    },
+  },
   {
     name: "blockElement",
     symbols: [{ type: "codeBlock" }],
@@ -667,11 +886,417 @@ const baseRules: Rule[] = [
       };
     },
   },
+  {
+    name: "blockElement",
+    symbols: [{ type: "table" }],
+    postprocess: (data) => {
+      const { value } = (data as [moo.Token])[0];
+      const [header, delimiterRow, ...body] = value.split("\n");
+      const align = splitTableRow(delimiterRow)
+        .map((cell) =>
+          /^:-+:$/.test(cell)
+            ? "center"
+            : /^:-+$/.test(cell)
+            ? "left"
+            : /^-+:$/.test(cell)
+            ? "right"
+            : "none"
+        )
+        .join(",");
+      const rows = [header, ...body].map((line, index): InitialSchema => {
+        const row = combineAtJsons(
+          splitTableRow(line).flatMap((cell, cellIndex) => {
+            const { content, annotations } = cell
+              ? parseNested(cell)
+              : { content: NULL_TOKEN, annotations: [] };
+            const json: InitialSchema = {
+              content,
+              annotations: (
+                [
+                  {
+                    type: "custom",
+                    start: 0,
+                    end: content.length,
+                    attributes: { name: "table-cell" },
+                  },
+                ] as InitialSchema["annotations"]
+              ).concat(annotations),
+            };
+            return cellIndex
+              ? [{ content: " | ", annotations: [] }, json]
+              : [json];
+          })
+        );
+        return {
+          content: row.content,
+          annotations: (
+            [
+              {
+                type: "custom",
+                start: 0,
+                end: row.content.length,
+                attributes: { name: "table-row" },
+                ...(index ? {} : { appAttributes: { logseq: { align } } }),
+              },
+            ] as InitialSchema["annotations"]
+          ).concat(row.annotations),
+        };
+      });
+      const table = combineAtJsons(
+        rows.flatMap((row, index) =>
+          index ? [{ content: "\n", annotations: [] }, row] : [row]
+        )
+      );
+      return {
+        content: table.content,
+        annotations: (
+          [
+            {
+              type: "custom",
+              start: 0,
+              end: table.content.length,
+              attributes: { name: "table" },
+            },
+          ] as InitialSchema["annotations"]
+        ).concat(table.annotations),
+      };
+    },
+  },
+  {
+    name: "blockElement",
+    symbols: [{ type: "advancedQuery" }],
+    postprocess: (data) => {
+      const { value } = (data as [moo.Token])[0];
+      return {
+        content: value,
+        annotations: [
+          {
+            type: "custom",
+            start: 0,
+            end: value.length,
+            attributes: { name: "query" },
+            appAttributes: { logseq: { query: value } },
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "blockElement",
+    symbols: [{ type: "footnoteReference" }],
+    postprocess: (data) => {
+      const { value } = (data as [moo.Token])[0];
+      const content = value.slice(2, -1);
+      return {
+        content,
+        annotations: [
+          {
+            type: "custom",
+            start: 0,
+            end: content.length,
+            attributes: { name: "footnote" },
+            appAttributes: { samepage: { label: content } },
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "blockElement",
+    symbols: [{ type: "footnoteDefinition" }],
+    postprocess: (data) => {
+      const { value } = (data as [moo.Token])[0];
+      const [, label = "", body = ""] =
+        /^\[\^([^\]]+)\]: ([\s\S]*)$/.exec(value) || [];
+      const { content: _content, annotations } = body
+        ? parseNested(body)
+        : { content: "", annotations: [] };
+      const content = _content || NULL_TOKEN;
+      return {
+        content,
+        annotations: (
+          [
+            {
+              type: "custom",
+              start: 0,
+              end: content.length,
+              attributes: { name: "footnote-definition" },
+              // Labels pair references with definitions in any app, so they aren't Logseq's own
+              appAttributes: { samepage: { label } },
+            },
+          ] as InitialSchema["annotations"]
+        ).concat(annotations),
+      };
+    },
+  },
+  {
+    name: "blockElement",
+    symbols: [{ type: "htmlTag" }],
+    postprocess: (data) => {
+      const { value } = (data as [moo.Token])[0];
+      const tag = /^<(\w+)>/.exec(value)?.[1] || "";
+      const inner = value.slice(tag.length + 2, -(tag.length + 3));
+      const { content: _content, annotations } = inner
+        ? parseNested(inner)
+        : { content: "", annotations: [] };
+      const content = _content || NULL_TOKEN;
+      const name = Object.keys(HTML_TAGS).find((k) => HTML_TAGS[k] === tag);
+      return {
+        content,
+        annotations: (
+          [
+            name
+              ? {
+                  type: "custom",
+                  start: 0,
+                  end: content.length,
+                  attributes: { name },
+                }
+              : {
+                  type: "highlighting",
+                  start: 0,
+                  end: content.length,
+                  attributes: { delimiter: "<mark>" },
+                },
+          ] as InitialSchema["annotations"]
+        ).concat(annotations),
+      };
+    },
+  },
+  {
+    name: "blockElement",
+    symbols: [{ type: "escape" }],
+    postprocess: (data) => {
+      const { value } = (data as [moo.Token])[0];
+      // Kept as an annotation, since a backslash before plain text is only written back if it was there
+      return {
+        content: value.slice(1),
+        annotations: [
+          {
+            type: "custom",
+            start: 0,
+            end: 1,
+            attributes: { name: "escape" },
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "blockElement",
+    symbols: [{ type: "blockquote" }],
+    postprocess: (data) => {
+      const { value } = (data as [moo.Token])[0];
+      const body = value.replace(/^> /gm, "");
+      const { content: _content, annotations } = body
+        ? parseNested(body)
+        : { content: "", annotations: [] };
+      const content = _content || NULL_TOKEN;
+      return {
+        content,
+        annotations: (
+          [
+            {
+              type: "custom",
+              start: 0,
+              end: content.length,
+              attributes: { name: "quote" },
+            },
+          ] as InitialSchema["annotations"]
+        ).concat(annotations),
+      };
+    },
+  },
+  {
+    name: "blockElement",
+    symbols: [{ type: "admonition" }],
+    postprocess: (data) => {
+      const { value } = (data as [moo.Token])[0];
+      const [, type = "", body = "", endType = ""] =
+        /^#\+BEGIN_([A-Z]+)\n([\s\S]*)\n#\+END_([A-Z]+)$/.exec(value) || [];
+      if (type !== endType) {
+        return {
+          content: value,
+          annotations: [],
+        };
+      }
+      const { content: _content, annotations } = body
+        ? parseNested(body)
+        : { content: "", annotations: [] };
+      const content = _content || NULL_TOKEN;
+      return {
+        content,
+        annotations: (
+          [
+            type === "QUOTE"
+              ? {
+                  type: "custom",
+                  start: 0,
+                  end: content.length,
+                  attributes: { name: "quote" },
+                  appAttributes: { logseq: { delimiter: "#+BEGIN_QUOTE" } },
+                }
+              : {
+                  type: "custom",
+                  start: 0,
+                  end: content.length,
+                  attributes: { name: "callout" },
+                  appAttributes: { logseq: { type: type.toLowerCase() } },
+                },
+          ] as InitialSchema["annotations"]
+        ).concat(annotations),
+      };
+    },
+  },
+  {
+    name: "blockElement",
+    symbols: [{ type: "inlineCode" }],
+    postprocess: (data) => {
+      const { value } = (data as [moo.Token])[0];
+      const ticks = /^`+/.exec(value)?.[0].length || 1;
+      const content = value.slice(ticks, -ticks);
+      return {
+        content,
+        annotations: [
+          {
+            start: 0,
+            end: content.length,
+            type: "code",
+            attributes: {
+              language: "",
+              ticks,
+            },
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "blockElement",
+    symbols: [{ type: "taskMarker" }],
+    postprocess: (data) => {
+      const [token] = data as [moo.Token];
+      return {
+        content: String.fromCharCode(0),
+        annotations: [
+          {
+            type: "custom",
+            start: 0,
+            end: 1,
+            attributes: {
+              name: DONE_MARKERS.has(token.value) ? "done" : "todo",
+            },
+            appAttributes: {
+              logseq: {
+                marker: token.value,
+              },
+            },
+          } as Annotation,
+        ],
+      };
+    },
+  },
+  {
+    name: "blockElement",
+    symbols: [{ type: "priority" }],
+    postprocess: (data) => {
+      const [token] = data as [moo.Token];
+      const content = token.value.slice(2, -1);
+      return {
+        content,
+        annotations: [
+          {
+            type: "custom",
+            start: 0,
+            end: content.length,
+            attributes: {
+              name: "priority",
+            },
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "blockElement",
+    symbols: [{ type: "plannerDate" }],
+    postprocess: (data) => {
+      const [token] = data as [moo.Token];
+      const [, newLine, keyword, date] =
+        /^(\n?)(SCHEDULED|DEADLINE): <([^>]+)>$/.exec(token.value) || [];
+      return {
+        content: `${newLine}${date}`,
+        annotations: [
+          {
+            type: "custom",
+            start: newLine.length,
+            end: newLine.length + date.length,
+            attributes: {
+              name: keyword.toLowerCase(),
+            },
+          },
+        ],
+      };
+    },
+  },
   {
     name: "blockElement",
     symbols: [{ type: "attribute" }],
-    postprocess: createEmptyAtJson,
+    postprocess: (data) => {
+      const [token] = data as [moo.Token];
+      const [, newLine, key] = /^(\n?)([^:]+)::/.exec(token.value) || [];
+      if (!key || isHiddenProperty(key)) {
+        return {
+          content: "",
+          annotations: [],
+        };
+      }
+      return {
+        content: token.value,
+        annotations: [
+          {
+            type: "custom",
+            start: newLine.length,
+            end: token.value.length,
+            attributes: {
+              name: "property",
+            },
+            appAttributes: {
+              logseq: {
+                key,
+              },
+            },
+          } as Annotation,
+        ],
+      };
+    },
   },
+  ...[
+    { type: "displayMath", delimiter: "$$", name: "display-math" },
+    { type: "inlineMath", delimiter: "$", name: "inline-math" },
+  ].map(
+    ({ type, delimiter, name }): Rule => ({
+      name: "blockElement",
+      symbols: [{ type }],
+      postprocess: (data) => {
+        const { value } = (data as [moo.Token])[0];
+        const content = value.slice(delimiter.length, -delimiter.length);
+        return {
+          content,
+          annotations: [
+            {
+              start: 0,
+              end: content.length,
+              type: "custom",
+              attributes: {
+                name,
+              },
+            },
+          ],
+        };
+      },
+    })
+  ),
   ...[
     "text",
     "star",
@@ -685,130 +1310,421 @@ const baseRules: Rule[] = [
     "rightBracket",
     "newLine",
     "exclamationMark",
+    "dollar",
+    "backslash",
+    "colon",
+    "backtick",
   ].map((type) => createTextRule({ ruleName: "blockElement", type })),
 ];
 
-const noDoubleRightBracketRules = baseRules
-  .filter((b) => {
-    const [symbol] = b.symbols;
-    return (
-      (b.name === "blockElement" || b.name === "lastElement") &&
-      typeof symbol === "object" &&
-      symbol.type !== "doubleRightBracket"
-    );
-  })
-  .map((r) => ({ ...r, name: "noDoubleRightBracket" }));
-const noCloseItalUnderRules = baseRules
-  .filter((b) => {
-    const [symbol] = b.symbols;
-    return (
-      (b.name === "blockElement" || b.name === "lastElement") &&
-      typeof symbol === "object" &&
-      symbol.type !== "closeItalUnder" &&
-      symbol.type !== "openItalUnder"
-    );
-  })
-  .map((r) => ({ ...r, name: "noCloseItalUnder" }));
-const noCloseItalStarRules = baseRules
-  .filter((b) => {
-    const [symbol] = b.symbols;
-    return (
-      (b.name === "blockElement" || b.name === "lastElement") &&
-      typeof symbol === "object" &&
-      symbol.type !== "closeItalStar"
-    );
-  })
-  .map((r) => ({ ...r, name: "noCloseItalStar" }));
-const noDoubleCarotRules = baseRules
-  .filter((b) => {
-    const [symbol] = b.symbols;
-    return (
-      (b.name === "blockElement" || b.name === "lastElement") &&
-      typeof symbol === "object" &&
-      symbol.type !== "highlight"
-    );
-  })
-  .map((r) => ({ ...r, name: "noDoubleCarot" }));
-const noDoubleTildeRules = baseRules
-  .filter((b) => {
-    const [symbol] = b.symbols;
-    return (
-      (b.name === "blockElement" || b.name === "lastElement") &&
-      typeof symbol === "object" &&
-      symbol.type !== "strike"
+// A lastElement swallows the rest of the block, so it may only end a sequence
+const deriveRules = ({
+  rules,
+  name,
+  excluded,
+  lastExcluded = excluded,
+}: {
+  rules: Rule[];
+  name: string;
+  excluded: string[];
+  lastExcluded?: string[];
+}) =>
+  rules
+    .filter((b) => {
+      const [symbol] = b.symbols;
+      return (
+        typeof symbol === "object" &&
+        ((b.name === "blockElement" && !excluded.includes(symbol.type)) ||
+          (b.name === "lastElement" && !lastExcluded.includes(symbol.type)))
+      );
+    })
+    .map((r) => ({
+      ...r,
+      name: r.name === "lastElement" ? `${name}s` : name,
+    }));
+
+const buildGrammarRules = (rules: Rule[]): Rule[] => {
+  return rules
+    .concat(
+      deriveRules({ rules, name: "noDoubleCarot", excluded: ["highlight"] })
+    )
+    .concat(deriveRules({ rules, name: "noDoubleTilde", excluded: ["strike"] }))
+    .concat(
+      deriveRules({ rules, name: "noDoubleUnder", excluded: ["doubleUnder"] })
+    )
+    .concat(
+      deriveRules({ rules, name: "noDoubleStar", excluded: ["doubleStar"] })
+    )
+    .concat(
+      deriveRules({
+        rules,
+        name: "noCloseItalUnder",
+        excluded: ["closeItalUnder", "openItalUnder"],
+        lastExcluded: ["closeItalUnder"],
+      })
+    )
+    .concat(
+      deriveRules({
+        rules,
+        name: "noCloseItalStar",
+        excluded: ["closeItalStar"],
+      })
+    )
+    .concat(
+      deriveRules({
+        rules,
+        name: "noDoubleRightBracket",
+        excluded: ["doubleRightBracket"],
+      })
     );
-  })
-  .map((r) => ({ ...r, name: "noDoubleTilde" }));
-const noDoubleUnderRules = baseRules
-  .filter((b) => {
-    const [symbol] = b.symbols;
-    return (
-      (b.name === "blockElement" || b.name === "lastElement") &&
-      typeof symbol === "object" &&
-      symbol.type !== "doubleUnder"
+};
+
+// Trailing punctuation reads as part of the sentence, not the link
+const BARE_URL_REGEX = new RegExp(
+  `(?:${URL_REGEX.source})(?<![.,:;!?*_~^\\]])`
+);
+const HTML_TAG_REGEX = new RegExp(
+  Object.values(HTML_TAGS)
+    .concat("mark")
+    .map((tag) => `<${tag}>[^\\n]*?</${tag}>`)
+    .join("|")
+);
+const TEXT_CHARACTER_REGEX = /(?:[^\\:^~_*#[\]!\n(){`$]|:(?!:)|{(?!{[^}]*}}))/;
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Extensions may come from another frame, whose RegExps aren't instances of ours
+const isRegExp = (rule: unknown): rule is RegExp =>
+  Object.prototype.toString.call(rule) === "[object RegExp]";
+
+const toSources = (rule: unknown): string[] =>
+  Array.isArray(rule)
+    ? rule.flatMap(toSources)
+    : isRegExp(rule)
+    ? [rule.source]
+    : typeof rule === "string"
+    ? [escapeRegExp(rule)]
+    : rule && typeof rule === "object" && "match" in rule
+    ? toSources((rule as moo.Rule).match)
+    : [];
+
+const buildLexerRules = (extensionRules: moo.Rules): moo.Rules => ({
+  taskMarker:
+    /^(?:TODO|DOING|DONE|LATER|NOW|WAITING|CANCELED|CANCELLED)(?=\s|$)/,
+  priority: /\[#[A-Z]\]/,
+  plannerDate: {
+    match: /(?:\n|^)(?:SCHEDULED|DEADLINE): <[^>\n]+>/,
+    lineBreaks: true,
+  },
+  blockquote: {
+    match: /(?:^|(?<=\n))> [^\n]*(?:\n> [^\n]*)*/,
+    lineBreaks: true,
+  },
+  admonition: {
+    match:
+      /(?:^|(?<=\n))#\+BEGIN_(?:QUOTE|NOTE|TIP|IMPORTANT|CAUTION|PINNED|WARNING)\n[\s\S]*?\n#\+END_[A-Z]+/,
+    lineBreaks: true,
+  },
+  advancedQuery: {
+    match: /(?:^|(?<=\n))#\+BEGIN_QUERY\n[\s\S]*?\n#\+END_QUERY/,
+    lineBreaks: true,
+  },
+  footnoteDefinition: /(?:^|(?<=\n))\[\^[^\]\s]+\]: [^\n]*/,
+  footnoteReference: /\[\^[^\]\s]+\]/,
+  attribute: {
+    match: /(?:^|(?<=\n)|\n)[a-zA-Z][\w.-]*::[^\n]+/,
+    lineBreaks: true,
+  },
+  alias: /\[[^\]]*\]\([^\)]*\)/,
+  asset: /!\[[^\]]*\]\([^\)]*\)/,
+  url: BARE_URL_REGEX,
+  blockReference: /\(\([^)]*\)\)/,
+  macro: /{{[^}]*}}/,
+  hashtag: /#[a-zA-Z0-9_.-]+/,
+  hashDoubleLeftBracket: "#[[",
+  hash: /#/,
+  codeBlock: {
+    match: /```[\w ]*\n(?:[^`]|`(?!``)|``(?!`))*```/,
+    lineBreaks: true,
+  },
+  table: {
+    match:
+      /(?:^|(?<=\n))\|[^\n]*\|[ \t]*\n\|(?:[ \t]*:?-+:?[ \t]*\|)+[ \t]*(?:\n\|[^\n]*\|[ \t]*)*/,
+    lineBreaks: true,
+  },
+  // Longer runs of backticks let a span hold the shorter ones
+  inlineCode: /```(?:[^`\n]|``?(?!`))+?```|``(?:[^`\n]|`(?!`))+?``|`[^`\n]+`/,
+  displayMath: {
+    match: /\$\$(?:[^$]|\$(?!\$))+\$\$/,
+    lineBreaks: true,
+  },
+  inlineMath: /\$(?!\s)[^$\n]+(?<!\s)\$(?!\d)/,
+  htmlTag: HTML_TAG_REGEX,
+  escape: new RegExp(String.raw`\\${ESCAPABLE_CHARACTERS.source}`),
+  newLine: { match: /\n/, lineBreaks: true },
+  doubleUnder: "__",
+  doubleStar: "**",
+  closeItalUnder: { match: /(?<!\s)_(?:(?=\s)|$)/, lineBreaks: true },
+  openItalUnder: { match: /(?:(?<=\s)|^)_(?!\s)/, lineBreaks: true },
+  closeItalStar: { match: /(?<!\s)\*(?:(?=\s)|$)/, lineBreaks: true },
+  openItalStar: { match: /(?:(?<=\s)|^)\*(?!\s)/, lineBreaks: true },
+  text: {
+    match: new RegExp(
+      `(?:(?!${[BARE_URL_REGEX.source, HTML_TAG_REGEX.source]
+        .concat(toSources(Object.values(extensionRules)))
+        .join("|")})${TEXT_CHARACTER_REGEX.source})+`
+    ),
+    lineBreaks: true,
+  },
+  highlight: "^^",
+  strike: "~~",
+  under: "_",
+  star: "*",
+  tilde: "~",
+  carot: "^",
+  doubleLeftBracket: "[[",
+  doubleRightBracket: "]]",
+  leftBracket: "[",
+  leftParen: "(",
+  rightBracket: "]",
+  rightParen: ")",
+  exclamationMark: "!",
+  dollar: "$",
+  backslash: "\\",
+  colon: ":",
+  backtick: "`",
+});
+
+export type BlockParserExtension = {
+  lexerRules?: moo.Rules;
+  grammarRules?: Rule[];
+};
+
+const extensions: BlockParserExtension[] = [];
+
+const buildParserRules = () => {
+  const extensionRules = Object.fromEntries(
+    extensions.flatMap((e) => Object.entries(e.lexerRules || {}))
+  );
+  const builtInRules = buildLexerRules(extensionRules);
+  return {
+    // Extension tokens are tried first, but can't replace a built-in token of the same name
+    lexerRules: {
+      ...Object.fromEntries(
+        Object.entries(extensionRules).filter(([k]) => !(k in builtInRules))
+      ),
+      ...builtInRules,
+    },
+    grammarRules: buildGrammarRules(
+      extensions.flatMap((e) => e.grammarRules || []).concat(baseRules)
+    ),
+  };
+};
+
+let parserRules = buildParserRules();
+let parser = atJsonParser(parserRules);
+// Parsers for nested content, built once for each depth of nesting reached
+let nestedParsers: (typeof parser)[] = [];
+
+const rebuildParsers = () => {
+  parserRules = buildParserRules();
+  parser = atJsonParser(parserRules);
+  nestedParsers = [];
+};
+
+export const hasBlockParserExtensions = () => extensions.length > 0;
+
+export const registerBlockParserExtension = (
+  extension: BlockParserExtension
+) => {
+  extensions.push(extension);
+  rebuildParsers();
+  return () => {
+    const index = extensions.indexOf(extension);
+    if (index >= 0) extensions.splice(index, 1);
+    rebuildParsers();
+  };
+};
+
+// In production samepage's parser keeps the first of ambiguous results instead of throwing, so
+// "ambiguous" only shows up in development. It also sends every failure to SamePage itself,
+// which is why a failing block is parsed as few times as possible.
+export type BlockParserDiagnostic = {
+  reason: "unexpected-token" | "ambiguous" | "no-results" | "invalid-syntax";
+  input: string;
+  // Offset of the offending token, or of the line that fell back to text when there is none
+  position: number;
+  tokenType?: string;
+  message: string;
+};
+
+type BlockParserOptions = Parameters<typeof parser>[1] & {
+  // Robust mode: failing lines fall back to plain text instead of throwing
+  onDiagnostic?: (diagnostic: BlockParserDiagnostic) => void;
+};
+
+type Line = { text: string; offset: number; tokens: moo.Token[] };
+
+const toDiagnostic = ({
+  error,
+  input,
+  line,
+}: {
+  error: unknown;
+  input: string;
+  line: Line;
+}): BlockParserDiagnostic => {
+  const message = error instanceof Error ? error.message : String(error);
+  const [, tokenType, value] =
+    /^Unexpected %(\w+): ("(?:[^"\\]|\\.)*")/.exec(message) || [];
+  const token = line.tokens.find(
+    (t) => t.type === tokenType && JSON.stringify(t.value) === value
+  );
+  // moo only reports where it gave up as a column of the text it was lexing
+  const [, col] = /invalid syntax at line \d+ col (\d+)/.exec(message) || [];
+  return {
+    reason: tokenType
+      ? "unexpected-token"
+      : /ambiguous/.test(message)
+      ? "ambiguous"
+      : col
+      ? "invalid-syntax"
+      : "no-results",
+    input,
+    position: token
+      ? token.offset
+      : col
+      ? line.offset + Number(col) - 1
+      : line.offset,
+    tokenType,
+    message: message.split("\n")[0],
+  };
+};
+
+// Lines are split on top level line breaks, so multiline tokens like code blocks stay whole
+const getLines = (s: string, lexerRules: moo.Rules): Line[] => {
+  try {
+    const lexer = moo.compile(lexerRules).reset(s);
+    const lines: Line[] = [{ text: "", offset: 0, tokens: [] }];
+    for (let token = lexer.next(); token; token = lexer.next()) {
+      if (token.type === "newLine") {
+        lines.push({ text: "", offset: token.offset + 1, tokens: [] });
+      } else {
+        const line = lines[lines.length - 1];
+        line.text += token.text;
+        line.tokens.push(token);
+      }
+    }
+    return lines;
+  } catch {
+    // The lexer gave up, so each raw line reports its own lexer error instead
+    return s.split("\n").reduce(
+      (p, text) =>
+        p.concat({
+          text,
+          offset: p.length
+            ? p[p.length - 1].offset + p[p.length - 1].text.length + 1
+            : 0,
+          tokens: [],
+        }),
+      [] as Line[]
     );
-  })
-  .map((r) => ({ ...r, name: "noDoubleUnder" }));
-const noDoubleStarRules = baseRules
-  .filter((b) => {
-    const [symbol] = b.symbols;
-    return (
-      (b.name === "blockElement" || b.name === "lastElement") &&
-      typeof symbol === "object" &&
-      symbol.type !== "doubleStar"
+  }
+};
+
+type FallbackOptions = {
+  parse: (s: string) => InitialSchema;
+  lexerRules: moo.Rules;
+  onDiagnostic: (diagnostic: BlockParserDiagnostic) => void;
+};
+
+const parseLines = (
+  s: string,
+  error: unknown,
+  { parse, lexerRules, onDiagnostic }: FallbackOptions
+): InitialSchema => {
+  const lines = getLines(s, lexerRules);
+  // A single line already failed with this error, so it isn't parsed a second time
+  if (lines.length === 1) {
+    onDiagnostic(toDiagnostic({ error, input: s, line: lines[0] }));
+  }
+  const parsed =
+    lines.length === 1
+      ? [undefined]
+      : lines.map((line) => {
+          try {
+            return parse(line.text);
+          } catch (e) {
+            onDiagnostic(toDiagnostic({ error: e, input: s, line }));
+            return undefined;
+          }
+        });
+  // Every line parses on its own, so the failure came from how the lines combine
+  if (parsed.every((p) => p)) {
+    onDiagnostic(
+      toDiagnostic({
+        error,
+        input: s,
+        line: { text: s, offset: 0, tokens: lines.flatMap((l) => l.tokens) },
+      })
     );
-  })
-  .map((r) => ({ ...r, name: "noDoubleStar" }));
-const grammarRules: Rule[] = baseRules
-  .concat(noDoubleCarotRules)
-  .concat(noDoubleTildeRules)
-  .concat(noDoubleUnderRules)
-  .concat(noDoubleStarRules)
-  .concat(noCloseItalUnderRules)
-  .concat(noCloseItalStarRules)
-  .concat(noDoubleRightBracketRules);
-
-const blockParser = atJsonParser({
-  lexerRules: {
-    attribute: { match: /\n?[a-z]+::[^\n]+/, lineBreaks: true },
-    alias: /\[[^\]]*\]\([^\)]*\)/,
-    asset: /!\[[^\]]*\]\([^\)]*\)/,
-    url: URL_REGEX,
-    blockReference: /\(\([^)]*\)\)/,
-    macro: /{{[^}]*}}/,
-    hashtag: /#[a-zA-Z0-9_.-]+/,
-    hashDoubleLeftBracket: "#[[",
-    hash: /#/,
-    codeBlock: {
-      match: /```[\w ]*\n(?:[^`]|`(?!``)|``(?!`))*```/,
-      lineBreaks: true,
-    },
-    newLine: { match: /\n/, lineBreaks: true },
-    doubleUnder: "__",
-    doubleStar: "**",
-    closeItalUnder: { match: /(?<!\s)_(?:(?=\s)|$)/, lineBreaks: true },
-    openItalUnder: { match: /(?:(?<=\s)|^)_(?!\s)/, lineBreaks: true },
-    closeItalStar: { match: /(?<!\s)\*(?:(?=\s)|$)/, lineBreaks: true },
-    openItalStar: { match: /(?:(?<=\s)|^)\*(?!\s)/, lineBreaks: true },
-    text: {
-      match: /(?:[^:^~_*#[\]!\n(){`]|:(?!:)|{(?!{[^}]*}})|`(?!``)|``(?!`))+/,
-      lineBreaks: true,
-    },
-    highlight: "^^",
-    strike: "~~",
-    under: "_",
-    star: "*",
-    tilde: "~",
-    carot: "^",
-    doubleLeftBracket: "[[",
-    doubleRightBracket: "]]",
-    leftBracket: "[",
-    leftParen: "(",
-    rightBracket: "]",
-    rightParen: ")",
-    exclamationMark: "!",
-  },
-  grammarRules,
-});
+  }
+  return combineAtJsons(
+    parsed.flatMap((line, index) => {
+      const { text } = lines[index];
+      // Text of a line that failed is written back exactly as it was, without escapes
+      const json = line || {
+        content: text,
+        annotations: text
+          ? [
+              {
+                type: "custom",
+                start: 0,
+                end: text.length,
+                attributes: { name: "verbatim" },
+              } as Annotation,
+            ]
+          : [],
+      };
+      return index ? [{ content: "\n", annotations: [] }, json] : [json];
+    })
+  );
+};
+
+// Shared with the Org grammar, which falls back the same way
+export const parseWithFallback = (s: string, options: FallbackOptions) => {
+  try {
+    return options.parse(s);
+  } catch (e) {
+    return parseLines(s, e, options);
+  }
+};
+
+const blockParser = (
+  s: string,
+  { onDiagnostic, ...opts }: BlockParserOptions = {}
+): InitialSchema => {
+  if (!onDiagnostic) return parser(s, opts);
+  return parseWithFallback(s, {
+    parse: (text) => parser(text, opts),
+    lexerRules: parserRules.lexerRules,
+    onDiagnostic,
+  });
+};
+
+// The outer parse is still reading from its lexer, so each depth of nesting parses with its own
+let nestingDepth = 0;
+const parseNested = (s: string) => {
+  if (!nestedParsers[nestingDepth]) {
+    nestedParsers[nestingDepth] = atJsonParser(parserRules);
+  }
+  const parse = nestedParsers[nestingDepth];
+  nestingDepth++;
+  try {
+    return parse(s);
+  } finally {
+    nestingDepth--;
+  }
+};
 
 export default blockParser;
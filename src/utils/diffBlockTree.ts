@@ -0,0 +1,219 @@
+// `uuid` is the block this one was last known as, if any
+export type ExpectedBlock = { content: string; level: number; uuid?: string };
+
+export type ActualBlock = { uuid: string; content: string; level: number };
+
+// Blocks that don't exist yet are referred to as `new:<order>` until they are inserted
+export type BlockPosition = {
+  relation: "before" | "after" | "child";
+  target: string;
+};
+
+// `uuid` is the one the block had before it was removed, if it's coming back
+export type InsertedBlock = {
+  id: string;
+  content: string;
+  children: InsertedBlock[];
+  uuid?: string;
+};
+
+// New blocks that end up next to each other are inserted together as one tree
+export type BlockTreeOperation =
+  | { type: "update"; id: string; content: string }
+  | ({ type: "insert"; blocks: InsertedBlock[] } & BlockPosition)
+  | ({ type: "move"; id: string } & BlockPosition)
+  | { type: "remove"; id: string };
+
+const toParents = (levels: number[]) => {
+  const stack: { level: number; index: number }[] = [];
+  return levels.map((level, index) => {
+    while (stack.length && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+    const parent = stack.length ? stack[stack.length - 1].index : -1;
+    stack.push({ level, index });
+    return parent;
+  });
+};
+
+// Indices into `sequence` of its longest strictly increasing subsequence
+const longestIncreasingSubsequence = (sequence: number[]) => {
+  const tails: number[] = [];
+  const previous: number[] = [];
+  sequence.forEach((value, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (sequence[tails[mid]] < value) low = mid + 1;
+      else high = mid;
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+  const result: number[] = [];
+  for (
+    let index = tails.length ? tails[tails.length - 1] : -1;
+    index >= 0;
+    index = previous[index]
+  ) {
+    result.unshift(index);
+  }
+  return result;
+};
+
+const matchBlocks = (expected: ExpectedBlock[], actual: ActualBlock[]) => {
+  const byUuid = new Map(actual.map((a, index) => [a.uuid, index]));
+  const identified = new Set<number>();
+  const matches = expected.map((e) => {
+    const index = e.uuid ? byUuid.get(e.uuid) : undefined;
+    if (index === undefined || identified.has(index)) return -1;
+    identified.add(index);
+    return index;
+  });
+  const byContent = new Map<string, number[]>();
+  actual.forEach((a, index) => {
+    if (identified.has(index)) return;
+    const indices = byContent.get(a.content) || [];
+    indices.push(index);
+    byContent.set(a.content, indices);
+  });
+  expected.forEach((e, order) => {
+    if (matches[order] < 0) {
+      matches[order] = byContent.get(e.content)?.shift() ?? -1;
+    }
+  });
+
+  // Matched blocks outside of the longest run that kept its order have moved,
+  // so unmatched blocks are only paired up between the blocks that stayed put.
+  const matched = matches
+    .map((match, order) => ({ match, order }))
+    .filter(({ match }) => match >= 0);
+  const anchors = longestIncreasingSubsequence(
+    matched.map(({ match }) => match)
+  ).map((index) => matched[index]);
+  const used = new Set(matches.filter((match) => match >= 0));
+  anchors.concat({ match: actual.length, order: expected.length }).reduce(
+    (previous, anchor) => {
+      const candidates: number[] = [];
+      for (let index = previous.match + 1; index < anchor.match; index++) {
+        if (!used.has(index)) candidates.push(index);
+      }
+      for (
+        let order = previous.order + 1;
+        order < anchor.order && candidates.length;
+        order++
+      ) {
+        if (matches[order] < 0) matches[order] = candidates.shift() as number;
+      }
+      return anchor;
+    },
+    { match: -1, order: -1 }
+  );
+  return matches;
+};
+
+/**
+ * Plans the operations that turn the actual tree of blocks into the expected one.
+ * Blocks are matched by their known uuid, then by content, and keep their uuid, so that
+ * only blocks that were inserted, moved, edited or deleted are touched and references to
+ * the rest survive. Both trees are flattened in document order, and `ids` holds the uuid
+ * each expected block ends up with.
+ */
+const diffBlockTree = ({
+  expected,
+  actual,
+  root,
+}: {
+  expected: ExpectedBlock[];
+  actual: ActualBlock[];
+  root: string;
+}): { ids: string[]; operations: BlockTreeOperation[] } => {
+  const matches = matchBlocks(expected, actual);
+  const ids = matches.map((match, order) =>
+    match >= 0 ? actual[match].uuid : `new:${order}`
+  );
+
+  const children = new Map<string, string[]>([[root, []]]);
+  const parents = new Map<string, string>();
+  const actualParents = toParents(actual.map((a) => a.level));
+  actual.forEach(({ uuid }, index) => {
+    const parent =
+      actualParents[index] < 0 ? root : actual[actualParents[index]].uuid;
+    children.set(uuid, []);
+    children.get(parent)?.push(uuid);
+    parents.set(uuid, parent);
+  });
+
+  const operations: BlockTreeOperation[] = [];
+  const expectedParents = toParents(expected.map((e) => e.level));
+  const placed = new Map<string, number>();
+  const inserted = new Map<string, InsertedBlock>();
+  // The top level blocks of the insert operation each inserted block heads
+  const batches = new Map<string, InsertedBlock[]>();
+  expected.forEach(({ content, uuid }, order) => {
+    const id = ids[order];
+    const match = matches[order];
+    if (match >= 0 && actual[match].content !== content) {
+      operations.push({ type: "update", id, content });
+    }
+
+    const parent =
+      expectedParents[order] < 0 ? root : ids[expectedParents[order]];
+    const index = placed.get(parent) || 0;
+    placed.set(parent, index + 1);
+    const siblings = children.get(parent) || [];
+    if (siblings[index] === id) return;
+
+    const position: BlockPosition =
+      index > 0
+        ? { relation: "after", target: siblings[index - 1] }
+        : siblings.length
+        ? { relation: "before", target: siblings[0] }
+        : { relation: "child", target: parent };
+    if (match >= 0) {
+      operations.push({ type: "move", id, ...position });
+      const previous = children.get(parents.get(id) || root) || [];
+      previous.splice(previous.indexOf(id), 1);
+    } else {
+      const block: InsertedBlock = {
+        id,
+        content,
+        children: [],
+        ...(uuid ? { uuid } : {}),
+      };
+      const parentBlock = inserted.get(parent);
+      const previousBlocks = index > 0 && batches.get(siblings[index - 1]);
+      if (parentBlock && parentBlock.children.length === index) {
+        parentBlock.children.push(block);
+      } else if (
+        previousBlocks &&
+        previousBlocks[previousBlocks.length - 1].id === siblings[index - 1]
+      ) {
+        previousBlocks.push(block);
+        batches.set(id, previousBlocks);
+      } else {
+        const blocks: InsertedBlock[] = [block];
+        operations.push({ type: "insert", blocks, ...position });
+        batches.set(id, blocks);
+      }
+      inserted.set(id, block);
+      children.set(id, []);
+    }
+    siblings.splice(index, 0, id);
+    parents.set(id, parent);
+  });
+
+  // Every kept block now lives under a kept parent, so removing the topmost
+  // leftover blocks doesn't take any of them down with it.
+  const kept = new Set(ids);
+  actual.forEach(({ uuid }) => {
+    const parent = parents.get(uuid) || root;
+    if (!kept.has(uuid) && (parent === root || kept.has(parent))) {
+      operations.push({ type: "remove", id: uuid });
+    }
+  });
+  return { ids, operations };
+};
+
+export default diffBlockTree;
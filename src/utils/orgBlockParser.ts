@@ -0,0 +1,312 @@
+import { Annotation, InitialSchema } from "samepage/internal/types";
+import atJsonParser, {
+  combineAtJsons,
+  createEmptyAtJson,
+  createTextAtJson,
+  head,
+  URL_REGEX,
+} from "samepage/utils/atJsonParser";
+import blockParser, {
+  BlockParserDiagnostic,
+  parseWithFallback,
+} from "./blockParser";
+
+type Rule = Parameters<typeof atJsonParser>[0]["grammarRules"][number];
+
+const createTextRule = (type: string): Rule => ({
+  name: "blockElement",
+  symbols: [{ type }],
+  postprocess: createTextAtJson,
+});
+
+// Syntax that Org pages share with Markdown pages is delegated to the Markdown grammar
+const createLogseqRule = (type: string): Rule => ({
+  name: "blockElement",
+  symbols: [{ type }],
+  postprocess: (data) => {
+    const [token] = data as [moo.Token];
+    return blockParser(token.value);
+  },
+});
+
+const createEmphasisRule = ({
+  type,
+  toAnnotation,
+}: {
+  type: string;
+  toAnnotation: (end: number) => Annotation;
+}): Rule => ({
+  name: "blockElement",
+  symbols: [{ type }],
+  postprocess: (data) => {
+    const [token] = data as [moo.Token];
+    const { content, annotations } = parseNested(token.value.slice(1, -1));
+    return {
+      content,
+      annotations: [toAnnotation(content.length)].concat(annotations),
+    };
+  },
+});
+
+const createVerbatimRule = (type: string): Rule => ({
+  name: "blockElement",
+  symbols: [{ type }],
+  postprocess: (data) => {
+    const [token] = data as [moo.Token];
+    const content = token.value.slice(1, -1);
+    const delimiter = token.value.slice(0, 1);
+    return {
+      content,
+      annotations: [
+        {
+          start: 0,
+          end: content.length,
+          type: "code",
+          attributes: {
+            language: "",
+            ticks: 1,
+          },
+          ...(delimiter === "="
+            ? { appAttributes: { logseq: { delimiter } } }
+            : {}),
+        },
+      ],
+    };
+  },
+});
+
+const grammarRules: Rule[] = [
+  { name: "main", symbols: [], postprocess: createEmptyAtJson },
+  { name: "main", symbols: ["blockElements"], postprocess: head },
+  { name: "blockElements", symbols: ["blockElement"], postprocess: head },
+  {
+    name: "blockElements",
+    symbols: ["blockElement", "blockElements"],
+    postprocess: combineAtJsons,
+  },
+  createEmphasisRule({
+    type: "bold",
+    toAnnotation: (end) => ({
+      start: 0,
+      end,
+      type: "bold",
+      attributes: { delimiter: "*" },
+    }),
+  }),
+  createEmphasisRule({
+    type: "italics",
+    toAnnotation: (end) => ({
+      start: 0,
+      end,
+      type: "italics",
+      attributes: { delimiter: "/" },
+    }),
+  }),
+  createEmphasisRule({
+    type: "strike",
+    toAnnotation: (end) => ({
+      start: 0,
+      end,
+      type: "strikethrough",
+      attributes: { delimiter: "+" },
+    }),
+  }),
+  createEmphasisRule({
+    type: "underline",
+    toAnnotation: (end) => ({
+      start: 0,
+      end,
+      type: "custom",
+      attributes: { name: "underline" },
+    }),
+  }),
+  createVerbatimRule("code"),
+  createVerbatimRule("verbatim"),
+  {
+    name: "blockElement",
+    symbols: [{ type: "link" }],
+    postprocess: (data) => {
+      const [token] = data as [moo.Token];
+      const [, target, label = ""] =
+        /^\[\[([^\]]+)\](?:\[([^\]]*)\])?\]$/.exec(token.value) || [];
+      const content = label || String.fromCharCode(0);
+      if (URL_REGEX.test(target) || /^[a-z]+:\/\//.test(target)) {
+        return {
+          content: label || target,
+          annotations: [
+            {
+              start: 0,
+              end: (label || target).length,
+              type: "link",
+              attributes: {
+                href: target,
+              },
+            },
+          ],
+        };
+      }
+      return {
+        content,
+        annotations: [
+          {
+            start: 0,
+            end: content.length,
+            type: "reference",
+            attributes: {
+              notebookPageId: target,
+              notebookUuid: window.logseq.settings["uuid"],
+            },
+            appAttributes: {
+              logseq: {
+                kind: "wikilink",
+              },
+            },
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "blockElement",
+    symbols: [{ type: "srcBlock" }],
+    postprocess: (data) => {
+      const [token] = data as [moo.Token];
+      const language = /^#\+BEGIN_SRC([^\n]*)\n/.exec(token.value)?.[1] || "";
+      const content = token.value
+        .replace(/^#\+BEGIN_SRC[^\n]*\n/, "")
+        .replace(/#\+END_SRC$/, "");
+      return {
+        content,
+        annotations: [
+          {
+            start: 0,
+            end: content.length,
+            type: "code",
+            attributes: {
+              language: language.trim(),
+            },
+          },
+        ],
+      };
+    },
+  },
+  ...[
+    "taskMarker",
+    "priority",
+    "plannerDate",
+    "admonition",
+    "blockReference",
+    "macro",
+    "hashtag",
+    "displayMath",
+    "inlineMath",
+  ].map(createLogseqRule),
+  ...[
+    "text",
+    "star",
+    "slash",
+    "under",
+    "plus",
+    "tilde",
+    "equals",
+    "hash",
+    "leftBracket",
+    "rightBracket",
+    "leftParen",
+    "leftBrace",
+    "dollar",
+    "newLine",
+  ].map(createTextRule),
+];
+
+const lexerRules: moo.Rules = {
+  taskMarker:
+    /^(?:TODO|DOING|DONE|LATER|NOW|WAITING|CANCELED|CANCELLED)(?=\s|$)/,
+  priority: /\[#[A-Z]\]/,
+  plannerDate: {
+    match: /(?:\n|^)(?:SCHEDULED|DEADLINE): <[^>\n]+>/,
+    lineBreaks: true,
+  },
+  srcBlock: {
+    match: /#\+BEGIN_SRC[^\n]*\n(?:[\s\S]*?\n)?#\+END_SRC/,
+    lineBreaks: true,
+  },
+  admonition: {
+    match:
+      /(?:^|(?<=\n))#\+BEGIN_(?:QUOTE|NOTE|TIP|IMPORTANT|CAUTION|PINNED|WARNING)\n[\s\S]*?\n#\+END_[A-Z]+/,
+    lineBreaks: true,
+  },
+  link: /\[\[[^\]\n]+\](?:\[[^\]\n]*\])?\]/,
+  blockReference: /\(\([^)]*\)\)/,
+  macro: /{{[^}]*}}/,
+  hashtag: /#(?:\[\[[^\]\n]+\]\]|[a-zA-Z0-9_.-]+)/,
+  bold: /(?:(?<=[\s('"{])|^)\*[^\s*](?:[^*\n]*[^\s*])?\*(?=[\s.,:;!?'")}\]-]|$)/,
+  italics:
+    /(?:(?<=[\s('"{])|^)\/[^\s/](?:[^/\n]*[^\s/])?\/(?=[\s.,:;!?'")}\]-]|$)/,
+  underline:
+    /(?:(?<=[\s('"{])|^)_[^\s_](?:[^_\n]*[^\s_])?_(?=[\s.,:;!?'")}\]-]|$)/,
+  strike:
+    /(?:(?<=[\s('"{])|^)\+[^\s+](?:[^+\n]*[^\s+])?\+(?=[\s.,:;!?'")}\]-]|$)/,
+  code: /(?:(?<=[\s('"{])|^)~[^\s~](?:[^~\n]*[^\s~])?~(?=[\s.,:;!?'")}\]-]|$)/,
+  verbatim:
+    /(?:(?<=[\s('"{])|^)=[^\s=](?:[^=\n]*[^\s=])?=(?=[\s.,:;!?'")}\]-]|$)/,
+  displayMath: {
+    match: /\$\$(?:[^$]|\$(?!\$))+\$\$/,
+    lineBreaks: true,
+  },
+  inlineMath: /\$(?!\s)[^$\n]+(?<!\s)\$(?!\d)/,
+  newLine: { match: /\n/, lineBreaks: true },
+  text: /[^*/_+~=#[\]({$\n]+/,
+  star: "*",
+  slash: "/",
+  under: "_",
+  plus: "+",
+  tilde: "~",
+  equals: "=",
+  hash: "#",
+  leftBracket: "[",
+  rightBracket: "]",
+  leftParen: "(",
+  leftBrace: "{",
+  dollar: "$",
+};
+
+const parser = atJsonParser({
+  lexerRules,
+  grammarRules,
+});
+
+type OrgBlockParserOptions = Parameters<typeof parser>[1] & {
+  // Robust mode: failing lines fall back to plain text instead of throwing
+  onDiagnostic?: (diagnostic: BlockParserDiagnostic) => void;
+};
+
+const orgBlockParser = (
+  s: string,
+  { onDiagnostic, ...opts }: OrgBlockParserOptions = {}
+): InitialSchema => {
+  if (!onDiagnostic) return parser(s, opts);
+  return parseWithFallback(s, {
+    parse: (text) => parser(text, opts),
+    lexerRules,
+    onDiagnostic,
+  });
+};
+
+// moo lexers are stateful, so each depth of nesting gets a parser of its own, built once
+const nestedParsers: (typeof parser)[] = [];
+let nestingDepth = 0;
+const parseNested = (s: string) => {
+  if (!nestedParsers[nestingDepth]) {
+    nestedParsers[nestingDepth] = atJsonParser({ lexerRules, grammarRules });
+  }
+  const parse = nestedParsers[nestingDepth];
+  nestingDepth++;
+  try {
+    return parse(s);
+  } finally {
+    nestingDepth--;
+  }
+};
+
+export default orgBlockParser;
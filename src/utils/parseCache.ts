@@ -0,0 +1,126 @@
+import type { InitialSchema } from "samepage/internal/types";
+import { BlockParserDiagnostic, hasBlockParserExtensions } from "./blockParser";
+import { IDBPDatabase, openDB } from "idb";
+
+const DB_NAME = "samepage-logseq-parse-cache";
+const STORE_NAME = "blocks";
+const VERSION_KEY = "version";
+const MAX_ENTRIES = 20000;
+const PERSIST_DELAY = 1000;
+
+type ParsedBlock = {
+  state: InitialSchema;
+  diagnostics: BlockParserDiagnostic[];
+};
+
+// Parsed blocks keyed by notebook, format and content, least recently used first
+const cache = new Map<string, ParsedBlock>();
+const pending = new Map<string, InitialSchema>();
+let persistTimeout = 0;
+// Bumped on every clear, so a load that was already running doesn't bring cleared entries back
+let generation = 0;
+let db: Promise<IDBPDatabase> | undefined;
+
+const getDb = () => {
+  if (typeof indexedDB === "undefined") return undefined;
+  if (!db) {
+    db = openDB(DB_NAME, 1, {
+      upgrade: (database) => {
+        database.createObjectStore(STORE_NAME);
+      },
+    });
+  }
+  return db;
+};
+
+// Parsed references carry this notebook's uuid, so entries from another notebook never match
+const toKey = (format: string, content: string) =>
+  `${window.logseq.settings["uuid"]}:${format}:${content}`;
+
+const remember = (key: string, parsed: ParsedBlock) => {
+  cache.delete(key);
+  cache.set(key, parsed);
+  if (cache.size > MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value);
+  }
+};
+
+const persist = () => {
+  const database = getDb();
+  if (!database || persistTimeout) return;
+  persistTimeout = window.setTimeout(() => {
+    persistTimeout = 0;
+    const entries = Array.from(pending.entries());
+    pending.clear();
+    database
+      .then((d) => {
+        const tx = d.transaction(STORE_NAME, "readwrite");
+        return Promise.all([
+          ...entries.map(([key, state]) => tx.store.put(state, key)),
+          tx.done,
+        ]);
+      })
+      .catch(() => undefined);
+  }, PERSIST_DELAY);
+};
+
+// Blocks are parsed on every change to a shared page, so only new content reaches the grammar
+export const cachedParse = ({
+  format = "markdown",
+  content,
+  parse,
+}: {
+  format?: string;
+  content: string;
+  parse: () => ParsedBlock;
+}): ParsedBlock => {
+  const key = toKey(format, content);
+  const cached = cache.get(key);
+  if (cached) {
+    remember(key, cached);
+    return cached;
+  }
+  const parsed = parse();
+  remember(key, parsed);
+  // Blocks that fell back to text are only kept for this session, so the next version parses them again.
+  // Neither are parses made with extensions, which only live as long as the session that registered them.
+  if (!parsed.diagnostics.length && !hasBlockParserExtensions()) {
+    pending.set(key, parsed.state);
+    persist();
+  }
+  return parsed;
+};
+
+// Results from an older version of the grammar can't be trusted, so they are dropped
+export const loadParseCache = async () => {
+  const database = getDb();
+  if (!database || hasBlockParserExtensions()) return;
+  const loading = generation;
+  const d = await database;
+  const version = await d.get(STORE_NAME, VERSION_KEY);
+  const count = await d.count(STORE_NAME);
+  if (version !== process.env.VERSION || count > MAX_ENTRIES) {
+    await d.clear(STORE_NAME);
+    await d.put(STORE_NAME, process.env.VERSION, VERSION_KEY);
+    return;
+  }
+  const tx = d.transaction(STORE_NAME);
+  for (
+    let cursor = await tx.store.openCursor();
+    cursor;
+    cursor = await cursor.continue()
+  ) {
+    if (loading !== generation || hasBlockParserExtensions()) return;
+    const key = String(cursor.key);
+    if (key !== VERSION_KEY && !cache.has(key)) {
+      remember(key, { state: cursor.value, diagnostics: [] });
+    }
+  }
+};
+
+// Stored entries were all parsed without extensions, so only what this session parsed is dropped
+export const clearParseCache = () => {
+  generation++;
+  cache.clear();
+  pending.clear();
+};
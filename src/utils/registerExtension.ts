@@ -0,0 +1,41 @@
+import { AnnotationRenderers, registerCustomRenderer } from "./atJsonToLogseq";
+import {
+  BlockParserExtension,
+  registerBlockParserExtension,
+} from "./blockParser";
+import { clearParseCache } from "./parseCache";
+
+export type SamePageExtension = BlockParserExtension & {
+  renderers?: Record<string, AnnotationRenderers["custom"]>;
+};
+
+declare global {
+  interface Window {
+    samePageLogseq?: {
+      registerExtension: typeof registerExtension;
+    };
+  }
+}
+
+const registerExtension = ({
+  lexerRules,
+  grammarRules,
+  renderers = {},
+}: SamePageExtension) => {
+  // Blocks parsed before the grammar changed may now parse differently
+  clearParseCache();
+  const unregisterParser = registerBlockParserExtension({
+    lexerRules,
+    grammarRules,
+  });
+  const unregisterRenderers = Object.entries(renderers).map(([name, render]) =>
+    registerCustomRenderer(name, render)
+  );
+  return () => {
+    unregisterParser();
+    clearParseCache();
+    unregisterRenderers.forEach((unregister) => unregister());
+  };
+};
+
+export default registerExtension;
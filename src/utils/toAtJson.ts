@@ -0,0 +1,126 @@
+import type { SamePageSchema } from "samepage/internal/types";
+import type {
+  BlockEntity,
+  BlockUUIDTuple,
+} from "@logseq/libs/dist/LSPlugin.user";
+import blockParser, {
+  BlockParserDiagnostic,
+  removeHiddenProperties,
+} from "./blockParser";
+import orgBlockParser from "./orgBlockParser";
+import { extractHeading } from "./blockHeading";
+import { cachedParse } from "./parseCache";
+
+export type BlockDiagnostic = BlockParserDiagnostic & { blockUuid: string };
+
+const parseBlock = ({
+  format,
+  content,
+  onDiagnostic,
+}: {
+  format: BlockEntity["format"];
+  content: string;
+  onDiagnostic: (diagnostic: BlockParserDiagnostic) => void;
+}) => {
+  // Blocks that fell back to text replay their diagnostics instead of reaching the grammar again
+  const { state, diagnostics } = cachedParse({
+    format,
+    content,
+    parse: () => {
+      const diagnostics: BlockParserDiagnostic[] = [];
+      const options = {
+        onDiagnostic: (d: BlockParserDiagnostic) => diagnostics.push(d),
+      };
+      const state =
+        format === "org"
+          ? orgBlockParser(removeHiddenProperties(content), options)
+          : blockParser(content, options);
+      return { state, diagnostics };
+    },
+  });
+  diagnostics.forEach(onDiagnostic);
+  return state;
+};
+
+const toAtJson = ({
+  nodes = [],
+  onDiagnostic,
+  blockIds,
+}: {
+  nodes?: BlockEntity[];
+  onDiagnostic?: (diagnostic: BlockDiagnostic) => void;
+  // SamePage block id by Logseq block uuid
+  blockIds?: Map<string, string>;
+}): SamePageSchema => {
+  return flattenTree(nodes)
+    .map((n) => (index: number) => {
+      const { heading, headingForm, content: blockContent } = extractHeading(n);
+      const id = blockIds?.get(n.uuid);
+      const { content: _content, annotations } = parseBlock({
+        format: n.format,
+        content: blockContent,
+        onDiagnostic: (d) => onDiagnostic?.({ ...d, blockUuid: n.uuid }),
+      });
+      const content = `${
+        _content.length ? _content : String.fromCharCode(0)
+      }\n`;
+      const end = content.length + index;
+      const blockAnnotations: SamePageSchema["annotations"] = [
+        {
+          start: index,
+          end,
+          attributes: {
+            level: n.level || 0,
+            viewType: "bullet",
+          },
+          type: "block",
+          ...(heading || id
+            ? {
+                appAttributes: {
+                  ...(id ? { samepage: { id } } : {}),
+                  ...(heading ? { logseq: { heading, headingForm } } : {}),
+                },
+              }
+            : {}),
+        },
+      ];
+      return {
+        content,
+        annotations: blockAnnotations.concat(
+          annotations.map((a) => ({
+            ...a,
+            start: a.start + index,
+            end: a.end + index,
+          }))
+        ),
+      };
+    })
+    .reduce(
+      (p, c) => {
+        const { content: pc, annotations: pa } = p;
+        const { content: cc, annotations: ca } = c(pc.length);
+        // Appending in place keeps assembling large pages linear
+        pa.push(...ca);
+        return {
+          content: `${pc}${cc}`,
+          annotations: pa,
+        };
+      },
+      {
+        content: "",
+        annotations: [] as SamePageSchema["annotations"],
+      }
+    );
+};
+
+export const flattenTree = <T extends { children?: (T | BlockUUIDTuple)[] }>(
+  tree: T[]
+): T[] =>
+  tree.flatMap((t) => [
+    t,
+    ...flattenTree(
+      (t.children || []).filter((c): c is T => typeof c === "object")
+    ),
+  ]);
+
+export default toAtJson;
@@ -0,0 +1,202 @@
+import type {
+  BlockEntity,
+  IBatchBlock,
+  PageEntity,
+} from "@logseq/libs/dist/LSPlugin.user";
+import { test, expect } from "@playwright/test";
+import applyBlockTreeOperations from "../src/utils/applyBlockTreeOperations";
+import diffBlockTree from "../src/utils/diffBlockTree";
+
+type Editor = Parameters<typeof applyBlockTreeOperations>[0]["editor"];
+
+// Every call crosses from the plugin's iframe to Logseq and re-renders, so each one costs a tick
+const mockEditor = ({ batchResult }: { batchResult?: null } = {}) => {
+  const calls: string[] = [];
+  const batches: IBatchBlock[][] = [];
+  let created = 0;
+  const call =
+    <T>(name: string, result: (...args: unknown[]) => T) =>
+    (...args: unknown[]) =>
+      new Promise<T>((resolve) =>
+        setTimeout(() => {
+          calls.push(name);
+          resolve(result(...args));
+        }, 1)
+      );
+  const createBlock = () => ({ uuid: `uuid-${created++}` } as BlockEntity);
+  const createBatch = (batch: IBatchBlock[]): BlockEntity[] =>
+    batch.flatMap((b) => [createBlock(), ...createBatch(b.children || [])]);
+  const editor = {
+    appendBlockInPage: call("appendBlockInPage", createBlock),
+    insertBlock: call("insertBlock", createBlock),
+    insertBatchBlock: call("insertBatchBlock", (_, batch) => {
+      batches.push(batch as IBatchBlock[]);
+      return batchResult === null ? null : createBatch(batch as IBatchBlock[]);
+    }),
+    moveBlock: call("moveBlock", () => undefined),
+    removeBlock: call("removeBlock", () => undefined),
+    updateBlock: call("updateBlock", () => undefined),
+  } as unknown as Editor;
+  return { batches, calls, editor };
+};
+
+const time = async (fn: () => Promise<unknown>) => {
+  const start = performance.now();
+  await fn();
+  return performance.now() - start;
+};
+
+test("Receiving a whole page inserts it in batches instead of per block", async () => {
+  const expected = Array(2000)
+    .fill(null)
+    .map((_, i) => ({ content: `Block ${i}`, level: (i % 3) + 1 }));
+
+  const perBlock = mockEditor();
+  const perBlockTime = await time(() =>
+    expected.reduce(
+      (p, { content }) =>
+        p.then(() => perBlock.editor.appendBlockInPage("page", content)),
+      Promise.resolve<unknown>(undefined)
+    )
+  );
+
+  const { ids, operations } = diffBlockTree({
+    expected,
+    actual: [],
+    root: "page",
+  });
+  const batched = mockEditor();
+  let inserted: Record<string, string> = {};
+  const batchedTime = await time(() =>
+    applyBlockTreeOperations({
+      operations,
+      editor: batched.editor,
+      page: "page",
+    }).then((result) => {
+      inserted = result;
+    })
+  );
+
+  expect(perBlock.calls).toHaveLength(2000);
+  expect(batched.calls).toEqual([
+    "appendBlockInPage",
+    "insertBatchBlock",
+    "insertBatchBlock",
+  ]);
+  // Only blocks that had a uuid before are pinned to it with an `id::` property
+  expect(batched.batches.flat().some((b) => b.properties)).toBe(false);
+  expect(new Set(ids.map((id) => inserted[id])).size).toBe(2000);
+  expect(batchedTime).toBeLessThan(perBlockTime / 10);
+});
+
+test("Incremental edits keep using per block operations", async () => {
+  const { operations } = diffBlockTree({
+    expected: [
+      { content: "a", level: 1 },
+      { content: "b, edited", level: 1 },
+      { content: "new", level: 1 },
+    ],
+    actual: [
+      { uuid: "a", content: "a", level: 1 },
+      { uuid: "b", content: "b", level: 1 },
+    ],
+    root: "page",
+  });
+  const { calls, editor } = mockEditor();
+  await applyBlockTreeOperations({ operations, editor, page: "page" });
+  expect(calls).toEqual(["updateBlock", "insertBlock"]);
+});
+
+test("Batched blocks are read back from the page when Logseq returns nothing", async () => {
+  const { ids, operations } = diffBlockTree({
+    expected: [
+      { content: "a", level: 1 },
+      { content: "x", level: 1 },
+      { content: "y", level: 2 },
+    ],
+    actual: [{ uuid: "a", content: "a", level: 1 }],
+    root: "page",
+  });
+  const { batches, editor } = mockEditor({ batchResult: null });
+  const inserted = await applyBlockTreeOperations({
+    operations,
+    editor: {
+      ...editor,
+      getBlock: () =>
+        Promise.resolve({
+          uuid: "a",
+          parent: { id: 1 },
+          page: { id: 1 },
+        } as BlockEntity),
+      getPage: () => Promise.resolve({ uuid: "page" } as PageEntity),
+      getPageBlocksTree: () =>
+        Promise.resolve([
+          { uuid: "a", children: [] },
+          { uuid: "x", children: [{ uuid: "y", children: [] }] },
+        ] as unknown as BlockEntity[]),
+    },
+    page: "page",
+  });
+  expect(batches).toEqual([[{ content: "x", children: [{ content: "y" }] }]]);
+  expect(ids.slice(1).map((id) => inserted[id])).toEqual(["x", "y"]);
+});
+
+test("Blocks coming back are inserted with the uuid they had", async () => {
+  const { operations } = diffBlockTree({
+    expected: [
+      { content: "a", level: 1, uuid: "a" },
+      { content: "b", level: 1, uuid: "b" },
+    ],
+    actual: [{ uuid: "a", content: "a", level: 1 }],
+    root: "page",
+  });
+  const { batches, calls, editor } = mockEditor();
+  const inserted = await applyBlockTreeOperations({
+    operations,
+    editor,
+    page: "page",
+  });
+  expect(calls).toEqual(["insertBatchBlock"]);
+  expect(batches).toEqual([[{ content: "b", properties: { id: "b" } }]]);
+  expect(Object.values(inserted)).toEqual(["b"]);
+
+  const emptyPage = mockEditor();
+  await applyBlockTreeOperations({
+    operations: diffBlockTree({
+      expected: [{ content: "a", level: 1, uuid: "a" }],
+      actual: [],
+      root: "page",
+    }).operations,
+    editor: emptyPage.editor,
+    page: "page",
+  });
+  expect(emptyPage.calls).toEqual([
+    "appendBlockInPage",
+    "insertBatchBlock",
+    "removeBlock",
+  ]);
+  expect(emptyPage.batches).toEqual([
+    [{ content: "a", properties: { id: "a" } }],
+  ]);
+});
+
+test("Failing inserts name the block that failed", async () => {
+  const { operations } = diffBlockTree({
+    expected: [
+      { content: "a", level: 1 },
+      { content: "new block", level: 1 },
+    ],
+    actual: [{ uuid: "a", content: "a", level: 1 }],
+    root: "page",
+  });
+  const { editor } = mockEditor();
+  await expect(
+    applyBlockTreeOperations({
+      operations,
+      editor: { ...editor, insertBlock: () => Promise.resolve(null) },
+      page: "page",
+    })
+  ).rejects.toThrow(
+    'Failed to insert block "new block" after a: Logseq returned no block'
+  );
+});
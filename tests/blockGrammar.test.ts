@@ -2,7 +2,10 @@ import type { InitialSchema } from "samepage/internal/types";
 import { test, expect } from "@playwright/test";
 import { v4 } from "uuid";
 import atJsonToLogseq from "../src/utils/atJsonToLogseq";
-import blockParser from "../src/utils/blockParser";
+import blockParser, {
+  BlockParserDiagnostic,
+  removeHiddenProperties,
+} from "../src/utils/blockParser";
 import registry from "samepage/internal/registry";
 
 const notebookUuid = v4();
@@ -33,7 +36,7 @@ const runTest =
   };
 
 test.beforeAll(() => {
-  registry({ app: 2 });
+  registry({ app: "logseq" });
 });
 
 test(
@@ -173,6 +176,27 @@ test(
   )
 );
 
+test(
+  "Ignore properties Logseq manages",
+  runTest(
+    "Some content\ncollapsed:: true",
+    {
+      content: "Some content",
+      annotations: [],
+    },
+    { skipInverse: true }
+  )
+);
+
+test("Blocks with only Logseq managed properties have no content", () => {
+  expect(blockParser("collapsed:: true")).toEqual({
+    content: "",
+    annotations: [],
+  });
+  expect(removeHiddenProperties("collapsed:: true")).toBe("");
+  expect(removeHiddenProperties("heading:: 2\nsamepage:: abc")).toBe("");
+});
+
 test(
   "Aliasless link",
   runTest("A [](https://samepage.network) text", {
@@ -194,7 +218,59 @@ test(
   "Just a link",
   runTest("Just a link: https://samepage.network", {
     content: "Just a link: https://samepage.network",
-    annotations: [],
+    annotations: [
+      {
+        start: 13,
+        end: 37,
+        type: "link",
+        attributes: { href: "https://samepage.network" },
+        appAttributes: { logseq: { bare: "true" } },
+      },
+    ],
+  })
+);
+
+test(
+  "Bare links leave trailing punctuation as text",
+  runTest("Visit www.samepage.network/docs, or **https://samepage.network**.", {
+    content: "Visit www.samepage.network/docs, or https://samepage.network.",
+    annotations: [
+      {
+        start: 6,
+        end: 31,
+        type: "link",
+        attributes: { href: "www.samepage.network/docs" },
+        appAttributes: { logseq: { bare: "true" } },
+      },
+      {
+        start: 36,
+        end: 60,
+        type: "bold",
+        attributes: { delimiter: "**" },
+      },
+      {
+        start: 36,
+        end: 60,
+        type: "link",
+        attributes: { href: "https://samepage.network" },
+        appAttributes: { logseq: { bare: "true" } },
+      },
+    ],
+  })
+);
+
+test(
+  "Links labelled with their own url keep their label",
+  runTest("[https://samepage.network](https://samepage.network)", {
+    content: "https://samepage.network",
+    annotations: [
+      {
+        start: 0,
+        end: 24,
+        type: "link",
+        attributes: { href: "https://samepage.network" },
+      },
+    ],
   })
 );
 
@@ -766,7 +842,1102 @@ console.log("Hello");
   )
 );
 
-test.skip(
+test(
+  "Inline code",
+  runTest("Run `npm run build` before `git push`", {
+    content: "Run npm run build before git push",
+    annotations: [
+      {
+        type: "code",
+        start: 4,
+        end: 17,
+        attributes: {
+          language: "",
+          ticks: 1,
+        },
+      },
+      {
+        type: "code",
+        start: 25,
+        end: 33,
+        attributes: {
+          language: "",
+          ticks: 1,
+        },
+      },
+    ],
+  })
+);
+
+test(
+  "Inline code keeps formatting characters",
+  runTest("Call `__init__(**kwargs)` on it", {
+    content: "Call __init__(**kwargs) on it",
+    annotations: [
+      {
+        type: "code",
+        start: 5,
+        end: 23,
+        attributes: {
+          language: "",
+          ticks: 1,
+        },
+      },
+    ],
+  })
+);
+
+test(
+  "Unclosed backtick is text",
+  runTest("A lone ` backtick", {
+    content: "A lone ` backtick",
+    annotations: [],
+  })
+);
+
+test(
   "Handle Attributes",
-  runTest("Key:: Value", { content: "", annotations: [] })
+  runTest("Key:: Value", {
+    content: "Key:: Value",
+    annotations: [
+      {
+        type: "custom",
+        start: 0,
+        end: 11,
+        attributes: { name: "property" },
+        appAttributes: { logseq: { key: "Key" } },
+      },
+    ],
+  })
+);
+
+test(
+  "Block properties after content",
+  runTest("Ship it\nstatus:: doing\nowner:: [[Alice]]", {
+    content: "Ship it\nstatus:: doing\nowner:: [[Alice]]",
+    annotations: [
+      {
+        type: "custom",
+        start: 8,
+        end: 22,
+        attributes: { name: "property" },
+        appAttributes: { logseq: { key: "status" } },
+      },
+      {
+        type: "custom",
+        start: 23,
+        end: 40,
+        attributes: { name: "property" },
+        appAttributes: { logseq: { key: "owner" } },
+      },
+    ],
+  })
+);
+
+test(
+  "Hidden properties are dropped alongside shared ones",
+  runTest(
+    "Some content\nsource:: web\nid:: 12345678-abdf-1234-5678-abcdef123456",
+    {
+      content: "Some content\nsource:: web",
+      annotations: [
+        {
+          type: "custom",
+          start: 13,
+          end: 25,
+          attributes: { name: "property" },
+          appAttributes: { logseq: { key: "source" } },
+        },
+      ],
+    },
+    { skipInverse: true }
+  )
+);
+
+test(
+  "Todo task marker",
+  runTest("TODO buy milk", {
+    content: `${String.fromCharCode(0)} buy milk`,
+    annotations: [
+      {
+        type: "custom",
+        start: 0,
+        end: 1,
+        attributes: { name: "todo" },
+        appAttributes: { logseq: { marker: "TODO" } },
+      },
+    ],
+  })
+);
+
+test(
+  "Done task marker",
+  runTest("DONE **ship** release", {
+    content: `${String.fromCharCode(0)} ship release`,
+    annotations: [
+      {
+        type: "custom",
+        start: 0,
+        end: 1,
+        attributes: { name: "done" },
+        appAttributes: { logseq: { marker: "DONE" } },
+      },
+      {
+        type: "bold",
+        start: 2,
+        end: 6,
+        attributes: { delimiter: "**" },
+      },
+    ],
+  })
+);
+
+test(
+  "In progress task marker",
+  runTest("DOING write docs", {
+    content: `${String.fromCharCode(0)} write docs`,
+    annotations: [
+      {
+        type: "custom",
+        start: 0,
+        end: 1,
+        attributes: { name: "todo" },
+        appAttributes: { logseq: { marker: "DOING" } },
+      },
+    ],
+  })
+);
+
+test(
+  "Task markers only count at the start of a block",
+  runTest("Remember the TODO list", {
+    content: "Remember the TODO list",
+    annotations: [],
+  })
+);
+
+test("Checked off todo from another app becomes DONE", () => {
+  expect(
+    atJsonToLogseq({
+      content: `${String.fromCharCode(0)} write docs`,
+      annotations: [
+        {
+          type: "custom",
+          start: 0,
+          end: 1,
+          attributes: { name: "done" },
+          appAttributes: { logseq: { marker: "DOING" } },
+        },
+      ],
+    })
+  ).toEqual("DONE write docs");
+  expect(
+    atJsonToLogseq({
+      content: `${String.fromCharCode(0)} write docs`,
+      annotations: [
+        {
+          type: "custom",
+          start: 0,
+          end: 1,
+          attributes: { name: "todo" },
+        },
+      ],
+    })
+  ).toEqual("TODO write docs");
+});
+
+test(
+  "Task with priority and scheduled date",
+  runTest("TODO [#A] Plan sprint\nSCHEDULED: <2026-10-18 Sun>", {
+    content: `${String.fromCharCode(0)} A Plan sprint\n2026-10-18 Sun`,
+    annotations: [
+      {
+        type: "custom",
+        start: 0,
+        end: 1,
+        attributes: { name: "todo" },
+        appAttributes: { logseq: { marker: "TODO" } },
+      },
+      {
+        type: "custom",
+        start: 2,
+        end: 3,
+        attributes: { name: "priority" },
+      },
+      {
+        type: "custom",
+        start: 16,
+        end: 30,
+        attributes: { name: "scheduled" },
+      },
+    ],
+  })
+);
+
+test(
+  "Deadline with a time and repeater",
+  runTest("Pay rent\nDEADLINE: <2026-11-01 Sun 09:00 .+1m>", {
+    content: "Pay rent\n2026-11-01 Sun 09:00 .+1m",
+    annotations: [
+      {
+        type: "custom",
+        start: 9,
+        end: 34,
+        attributes: { name: "deadline" },
+      },
+    ],
+  })
+);
+
+test(
+  "Priority without a task marker",
+  runTest("[#C] Someday", {
+    content: "C Someday",
+    annotations: [
+      {
+        type: "custom",
+        start: 0,
+        end: 1,
+        attributes: { name: "priority" },
+      },
+    ],
+  })
+);
+
+test(
+  "A page embed",
+  runTest("Notes: {{embed [[Weekly Review]]}}", {
+    content: `Notes: ${String.fromCharCode(0)}`,
+    annotations: [
+      {
+        start: 7,
+        end: 8,
+        type: "reference",
+        attributes: {
+          notebookPageId: "Weekly Review",
+          notebookUuid,
+        },
+        appAttributes: {
+          logseq: {
+            kind: "embed",
+          },
+        },
+      },
+    ],
+  })
+);
+
+test(
+  "A block embed",
+  runTest("{{embed ((6f1c2a3b-abcd-1234-abcd-1234abcd1234))}}", {
+    content: String.fromCharCode(0),
+    annotations: [
+      {
+        start: 0,
+        end: 1,
+        type: "reference",
+        attributes: {
+          notebookPageId: "6f1c2a3b-abcd-1234-abcd-1234abcd1234",
+          notebookUuid,
+        },
+        appAttributes: {
+          logseq: {
+            kind: "embed",
+          },
+        },
+      },
+    ],
+  })
+);
+
+test(
+  "A cross app embed",
+  runTest("{{renderer samepage-embed,abcd1234:Shared Page}}", {
+    content: String.fromCharCode(0),
+    annotations: [
+      {
+        start: 0,
+        end: 1,
+        type: "reference",
+        attributes: {
+          notebookPageId: "Shared Page",
+          notebookUuid: "abcd1234",
+        },
+        appAttributes: {
+          logseq: {
+            kind: "embed",
+          },
+        },
+      },
+    ],
+  })
+);
+
+test(
+  "Inline math keeps formatting characters",
+  runTest("Energy $E = m*c^2$ and $x_i * y_i$ here", {
+    content: "Energy E = m*c^2 and x_i * y_i here",
+    annotations: [
+      {
+        type: "custom",
+        start: 7,
+        end: 16,
+        attributes: { name: "inline-math" },
+      },
+      {
+        type: "custom",
+        start: 21,
+        end: 30,
+        attributes: { name: "inline-math" },
+      },
+    ],
+  })
+);
+
+test(
+  "Display math",
+  runTest("$$\n\\sum_{i=1}^{n} x_i^2\n$$", {
+    content: "\n\\sum_{i=1}^{n} x_i^2\n",
+    annotations: [
+      {
+        type: "custom",
+        start: 0,
+        end: 22,
+        attributes: { name: "display-math" },
+      },
+    ],
+  })
+);
+
+test(
+  "Dollar amounts are not math",
+  runTest("It costs $5 or $10 total", {
+    content: "It costs $5 or $10 total",
+    annotations: [],
+  })
+);
+
+test(
+  "Markdown table",
+  runTest("| a | b |\n| --- | --- |\n| c | d |", {
+    content: "a | b\nc | d",
+    annotations: [
+      {
+        type: "custom",
+        start: 0,
+        end: 11,
+        attributes: { name: "table" },
+      },
+      {
+        type: "custom",
+        start: 0,
+        end: 5,
+        attributes: { name: "table-row" },
+        appAttributes: { logseq: { align: "none,none" } },
+      },
+      {
+        type: "custom",
+        start: 0,
+        end: 1,
+        attributes: { name: "table-cell" },
+      },
+      {
+        type: "custom",
+        start: 4,
+        end: 5,
+        attributes: { name: "table-cell" },
+      },
+      {
+        type: "custom",
+        start: 6,
+        end: 11,
+        attributes: { name: "table-row" },
+      },
+      {
+        type: "custom",
+        start: 6,
+        end: 7,
+        attributes: { name: "table-cell" },
+      },
+      {
+        type: "custom",
+        start: 10,
+        end: 11,
+        attributes: { name: "table-cell" },
+      },
+    ],
+  })
+);
+
+test(
+  "Markdown table with alignment and formatted cells",
+  runTest("| Name | **Score** |\n| :--- | ---: |\n| x | 1 |", {
+    content: "Name | Score\nx | 1",
+    annotations: [
+      {
+        type: "custom",
+        start: 0,
+        end: 18,
+        attributes: { name: "table" },
+      },
+      {
+        type: "custom",
+        start: 0,
+        end: 12,
+        attributes: { name: "table-row" },
+        appAttributes: { logseq: { align: "left,right" } },
+      },
+      {
+        type: "custom",
+        start: 0,
+        end: 4,
+        attributes: { name: "table-cell" },
+      },
+      {
+        type: "custom",
+        start: 7,
+        end: 12,
+        attributes: { name: "table-cell" },
+      },
+      {
+        type: "bold",
+        start: 7,
+        end: 12,
+        attributes: { delimiter: "**" },
+      },
+      {
+        type: "custom",
+        start: 13,
+        end: 18,
+        attributes: { name: "table-row" },
+      },
+      {
+        type: "custom",
+        start: 13,
+        end: 14,
+        attributes: { name: "table-cell" },
+      },
+      {
+        type: "custom",
+        start: 17,
+        end: 18,
+        attributes: { name: "table-cell" },
+      },
+    ],
+  })
+);
+
+const time = (fn: () => unknown) => {
+  const start = performance.now();
+  fn();
+  return performance.now() - start;
+};
+
+test("Table cells reuse the nested parser instead of building one each", () => {
+  const rows = Array(20)
+    .fill(null)
+    .map(
+      (_, r) =>
+        `| ${Array(10)
+          .fill(null)
+          .map((_, c) => `**${r}.${c}**`)
+          .join(" | ")} |`
+    );
+  const table = [rows[0], `|${" --- |".repeat(10)}`, ...rows.slice(1)].join(
+    "\n"
+  );
+  const cells = rows.flatMap((row) => row.slice(2, -2).split(" | "));
+  blockParser(table);
+
+  const tableTime = time(() => blockParser(table));
+  const cellsTime = time(() => cells.forEach((cell) => blockParser(cell)));
+  expect(tableTime).toBeLessThan(cellsTime * 3);
+});
+
+test(
+  "Markdown table after text",
+  runTest("Scores:\n| a |\n| --- |", {
+    content: "Scores:\na",
+    annotations: [
+      {
+        type: "custom",
+        start: 8,
+        end: 9,
+        attributes: { name: "table" },
+      },
+      {
+        type: "custom",
+        start: 8,
+        end: 9,
+        attributes: { name: "table-row" },
+        appAttributes: { logseq: { align: "none" } },
+      },
+      {
+        type: "custom",
+        start: 8,
+        end: 9,
+        attributes: { name: "table-cell" },
+      },
+    ],
+  })
+);
+
+test("Tables from other apps get a delimiter row and escaped pipes", () => {
+  const state: InitialSchema = {
+    content: "a | b\nc|d | e",
+    annotations: [
+      { type: "custom", start: 0, end: 13, attributes: { name: "table" } },
+      { type: "custom", start: 0, end: 5, attributes: { name: "table-row" } },
+      { type: "custom", start: 0, end: 1, attributes: { name: "table-cell" } },
+      { type: "custom", start: 4, end: 5, attributes: { name: "table-cell" } },
+      { type: "custom", start: 6, end: 13, attributes: { name: "table-row" } },
+      { type: "custom", start: 6, end: 9, attributes: { name: "table-cell" } },
+      {
+        type: "custom",
+        start: 12,
+        end: 13,
+        attributes: { name: "table-cell" },
+      },
+    ],
+  };
+  const md = atJsonToLogseq(state);
+  expect(md).toEqual("| a | b |\n| --- | --- |\n| c\\|d | e |");
+  expect(blockParser(md).content).toEqual(state.content);
+});
+
+test(
+  "Pipes outside of tables stay text",
+  runTest("a | b | c", {
+    content: "a | b | c",
+    annotations: [],
+  })
+);
+
+test(
+  "Blockquotes",
+  runTest("> Quoted **text**\n> second line", {
+    content: "Quoted text\nsecond line",
+    annotations: [
+      {
+        type: "custom",
+        start: 0,
+        end: 23,
+        attributes: { name: "quote" },
+      },
+      {
+        type: "bold",
+        start: 7,
+        end: 11,
+        attributes: { delimiter: "**" },
+      },
+    ],
+  })
+);
+
+test(
+  "Blockquote after text",
+  runTest("Before\n> quoted", {
+    content: "Before\nquoted",
+    annotations: [
+      {
+        type: "custom",
+        start: 7,
+        end: 13,
+        attributes: { name: "quote" },
+      },
+    ],
+  })
+);
+
+test(
+  "Admonition blocks",
+  runTest("#+BEGIN_TIP\nUse #tags wisely\n#+END_TIP", {
+    content: `Use ${String.fromCharCode(0)} wisely`,
+    annotations: [
+      {
+        type: "custom",
+        start: 0,
+        end: 12,
+        attributes: { name: "callout" },
+        appAttributes: { logseq: { type: "tip" } },
+      },
+      {
+        type: "reference",
+        start: 4,
+        end: 5,
+        attributes: { notebookPageId: "tags", notebookUuid },
+        appAttributes: { logseq: { kind: "hash" } },
+      },
+    ],
+  })
+);
+
+test(
+  "Quote blocks",
+  runTest("#+BEGIN_QUOTE\nWise words\n#+END_QUOTE", {
+    content: "Wise words",
+    annotations: [
+      {
+        type: "custom",
+        start: 0,
+        end: 10,
+        attributes: { name: "quote" },
+        appAttributes: { logseq: { delimiter: "#+BEGIN_QUOTE" } },
+      },
+    ],
+  })
+);
+
+test(
+  "Escaped italics",
+  runTest("\\*not italic\\*", {
+    content: "*not italic*",
+    annotations: [
+      {
+        type: "custom",
+        start: 0,
+        end: 1,
+        attributes: { name: "escape" },
+      },
+      {
+        type: "custom",
+        start: 11,
+        end: 12,
+        attributes: { name: "escape" },
+      },
+    ],
+  })
+);
+
+test(
+  "Escaped page reference",
+  runTest("\\[[not a link]]", {
+    content: "[[not a link]]",
+    annotations: [
+      {
+        type: "custom",
+        start: 0,
+        end: 1,
+        attributes: { name: "escape" },
+      },
+    ],
+  })
+);
+
+test(
+  "Escaped highlight and hashtag",
+  runTest("Literal \\^^highlight\\^^ and \\#tag", {
+    content: "Literal ^^highlight^^ and #tag",
+    annotations: [
+      {
+        type: "custom",
+        start: 8,
+        end: 9,
+        attributes: { name: "escape" },
+      },
+      {
+        type: "custom",
+        start: 19,
+        end: 20,
+        attributes: { name: "escape" },
+      },
+      {
+        type: "custom",
+        start: 26,
+        end: 27,
+        attributes: { name: "escape" },
+      },
+    ],
+  })
+);
+
+test(
+  "Backslashes before other characters stay text",
+  runTest("C:\\Users\\me", {
+    content: "C:\\Users\\me",
+    annotations: [],
+  })
+);
+
+test(
+  "Escapes before text that wouldn't be formatted round trip",
+  runTest("Regex \\d+\\.\\d+ here", {
+    content: "Regex \\d+.\\d+ here",
+    annotations: [
+      {
+        type: "custom",
+        start: 9,
+        end: 10,
+        attributes: { name: "escape" },
+      },
+    ],
+  })
+);
+
+test(
+  "Escaped list marker",
+  runTest("1\\. Not a list", {
+    content: "1. Not a list",
+    annotations: [
+      {
+        type: "custom",
+        start: 1,
+        end: 2,
+        attributes: { name: "escape" },
+      },
+    ],
+  })
+);
+
+test(
+  "Escapes after other backslashes",
+  runTest("C:\\Users\\me\\-x", {
+    content: "C:\\Users\\me-x",
+    annotations: [
+      {
+        type: "custom",
+        start: 11,
+        end: 12,
+        attributes: { name: "escape" },
+      },
+    ],
+  })
+);
+
+test("Delimiters in text from other apps are escaped", () => {
+  const output = atJsonToLogseq({
+    content: "Notion says **hi**, [[link]] and #tag in a**b**",
+    annotations: [
+      {
+        type: "code",
+        start: 41,
+        end: 47,
+        attributes: { language: "", ticks: 1 },
+      },
+    ],
+  });
+  expect(output).toEqual(
+    "Notion says \\**hi\\**, \\[[link]] and \\#tag in `a**b**`"
+  );
+  expect(blockParser(output).content).toEqual(
+    "Notion says **hi**, [[link]] and #tag in a**b**"
+  );
+});
+
+test(
+  "Inline HTML keyboard and underline",
+  runTest("Press <kbd>Ctrl</kbd> and <u>**look**</u>", {
+    content: "Press Ctrl and look",
+    annotations: [
+      {
+        type: "custom",
+        start: 6,
+        end: 10,
+        attributes: { name: "keyboard" },
+      },
+      {
+        type: "custom",
+        start: 15,
+        end: 19,
+        attributes: { name: "underline" },
+      },
+      {
+        type: "bold",
+        start: 15,
+        end: 19,
+        attributes: { delimiter: "**" },
+      },
+    ],
+  })
+);
+
+test(
+  "Inline HTML superscript, subscript and mark",
+  runTest("H<sub>2</sub>O and x<sup>2</sup> <mark>hi</mark>", {
+    content: "H2O and x2 hi",
+    annotations: [
+      {
+        type: "custom",
+        start: 1,
+        end: 2,
+        attributes: { name: "subscript" },
+      },
+      {
+        type: "custom",
+        start: 9,
+        end: 10,
+        attributes: { name: "superscript" },
+      },
+      {
+        type: "highlighting",
+        start: 11,
+        end: 13,
+        attributes: { delimiter: "<mark>" },
+      },
+    ],
+  })
+);
+
+test(
+  "Unsupported or unclosed HTML stays text",
+  runTest("<u>open and <span>x</span>", {
+    content: "<u>open and <span>x</span>",
+    annotations: [],
+  })
+);
+
+test(
+  "Footnote references and definitions",
+  runTest("A claim[^1] here\n[^1]: The **source**", {
+    content: "A claim1 here\nThe source",
+    annotations: [
+      {
+        type: "custom",
+        start: 7,
+        end: 8,
+        attributes: { name: "footnote" },
+        appAttributes: { samepage: { label: "1" } },
+      },
+      {
+        type: "custom",
+        start: 14,
+        end: 24,
+        attributes: { name: "footnote-definition" },
+        appAttributes: { samepage: { label: "1" } },
+      },
+      {
+        type: "bold",
+        start: 18,
+        end: 24,
+        attributes: { delimiter: "**" },
+      },
+    ],
+  })
+);
+
+test(
+  "Footnote definition on its own block",
+  runTest("[^note]: Only the definition", {
+    content: "Only the definition",
+    annotations: [
+      {
+        type: "custom",
+        start: 0,
+        end: 19,
+        attributes: { name: "footnote-definition" },
+        appAttributes: { samepage: { label: "note" } },
+      },
+    ],
+  })
+);
+
+test("Footnote definitions from other apps start their own line", () => {
+  const output = atJsonToLogseq({
+    content: "See1 Note and [^2]",
+    annotations: [
+      {
+        type: "custom",
+        start: 3,
+        end: 4,
+        attributes: { name: "footnote" },
+      },
+      {
+        type: "custom",
+        start: 5,
+        end: 18,
+        attributes: { name: "footnote-definition" },
+        appAttributes: { samepage: { label: "1" } },
+      },
+    ],
+  });
+  expect(output).toEqual("See[^1]\n[^1]: Note and \\[^2]");
+});
+
+test(
+  "Cloze macro",
+  runTest("The capital is {{cloze **Paris**}}.", {
+    content: "The capital is Paris.",
+    annotations: [
+      {
+        type: "highlighting",
+        start: 15,
+        end: 20,
+        appAttributes: { logseq: { kind: "cloze" } },
+      },
+      {
+        type: "bold",
+        start: 15,
+        end: 20,
+        attributes: { delimiter: "**" },
+      },
+    ],
+  })
+);
+
+test(
+  "Video and YouTube macros",
+  runTest(
+    "{{video https://samepage.network/demo.mp4}} and {{youtube https://youtu.be/abc}}",
+    {
+      content: "https://samepage.network/demo.mp4 and https://youtu.be/abc",
+      annotations: [
+        {
+          type: "link",
+          start: 0,
+          end: 33,
+          attributes: { href: "https://samepage.network/demo.mp4" },
+          appAttributes: { logseq: { kind: "video" } },
+        },
+        {
+          type: "link",
+          start: 38,
+          end: 58,
+          attributes: { href: "https://youtu.be/abc" },
+          appAttributes: { logseq: { kind: "youtube" } },
+        },
+      ],
+    }
+  )
+);
+
+test(
+  "Simple queries",
+  runTest("Open tasks: {{query (and [[project]] (task TODO))}}", {
+    content: "Open tasks: {{query (and [[project]] (task TODO))}}",
+    annotations: [
+      {
+        type: "custom",
+        start: 12,
+        end: 51,
+        attributes: { name: "query" },
+        appAttributes: {
+          logseq: { query: "{{query (and [[project]] (task TODO))}}" },
+        },
+      },
+    ],
+  })
+);
+
+test(
+  "Advanced queries",
+  runTest(
+    '#+BEGIN_QUERY\n{:title "Tasks" :query [:find (pull ?b [*]) :where [?b :block/marker "TODO"]]}\n#+END_QUERY',
+    {
+      content:
+        '#+BEGIN_QUERY\n{:title "Tasks" :query [:find (pull ?b [*]) :where [?b :block/marker "TODO"]]}\n#+END_QUERY',
+      annotations: [
+        {
+          type: "custom",
+          start: 0,
+          end: 104,
+          attributes: { name: "query" },
+          appAttributes: {
+            logseq: {
+              query:
+                '#+BEGIN_QUERY\n{:title "Tasks" :query [:find (pull ?b [*]) :where [?b :block/marker "TODO"]]}\n#+END_QUERY',
+            },
+          },
+        },
+      ],
+    }
+  )
+);
+
+test("Query snapshots are restored to the original query", () => {
+  const query = "{{query (task TODO)}}";
+  const output = atJsonToLogseq({
+    content: `Tasks: ${String.fromCharCode(0)}\n${String.fromCharCode(0)}`,
+    annotations: [
+      {
+        type: "custom",
+        start: 7,
+        end: 10,
+        attributes: { name: "query" },
+        appAttributes: { logseq: { query } },
+      },
+      {
+        type: "reference",
+        start: 7,
+        end: 8,
+        attributes: { notebookPageId: "Page One", notebookUuid },
+      },
+      {
+        type: "reference",
+        start: 9,
+        end: 10,
+        attributes: { notebookPageId: "Page Two", notebookUuid },
+      },
+    ],
+  });
+  expect(output).toEqual(`Tasks: ${query}`);
+});
+
+test("Robust mode falls back to text for the line that fails to parse", () => {
+  const diagnostics: BlockParserDiagnostic[] = [];
+  const output = blockParser("a\n*^^*\n**b**", {
+    onDiagnostic: (d) => diagnostics.push(d),
+  });
+  expect(output).toEqual({
+    content: "a\n*^^*\nb",
+    annotations: [
+      {
+        type: "custom",
+        start: 2,
+        end: 6,
+        attributes: { name: "verbatim" },
+      },
+      {
+        type: "bold",
+        start: 7,
+        end: 8,
+        attributes: { delimiter: "**" },
+      },
+    ],
+  });
+  // The line that fell back is written as it was, so applying an unchanged state rewrites nothing
+  expect(atJsonToLogseq(output)).toEqual("a\n*^^*\n**b**");
+  expect(diagnostics).toEqual([
+    {
+      reason: "ambiguous",
+      input: "a\n*^^*\n**b**",
+      position: 2,
+      message: "AtJson Parser returned multiple ambiguous results (2)",
+    },
+  ]);
+  expect(() => blockParser("*^^*")).toThrow();
+});
+
+test(
+  "Double colons inside a line stay text",
+  runTest("Use std::vector here", {
+    content: "Use std::vector here",
+    annotations: [],
+  })
+);
+
+test(
+  "Inline code between longer runs of backticks",
+  runTest("look: `code` and ```not``` or ``a`b``", {
+    content: "look: code and not or a`b",
+    annotations: [
+      {
+        type: "code",
+        start: 6,
+        end: 10,
+        attributes: { language: "", ticks: 1 },
+      },
+      {
+        type: "code",
+        start: 15,
+        end: 18,
+        attributes: { language: "", ticks: 3 },
+      },
+      {
+        type: "code",
+        start: 22,
+        end: 25,
+        attributes: { language: "", ticks: 2 },
+      },
+    ],
+  })
 );
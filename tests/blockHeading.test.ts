@@ -0,0 +1,69 @@
+import { test, expect } from "@playwright/test";
+import { applyHeading, extractHeading } from "../src/utils/blockHeading";
+
+test("Markdown headings round trip", () => {
+  [1, 2, 6].forEach((level) => {
+    const block = `${"#".repeat(level)} Title #tag`;
+    const output = extractHeading({ content: block });
+    expect(output).toEqual({
+      heading: `${level}`,
+      headingForm: "markdown",
+      content: "Title #tag",
+    });
+    expect(applyHeading(output)).toEqual(block);
+  });
+});
+
+test("Seven hashes are not a heading", () => {
+  expect(extractHeading({ content: "####### Title" })).toEqual({
+    heading: "",
+    headingForm: "",
+    content: "####### Title",
+  });
+});
+
+test("Heading property round trips", () => {
+  const block = "Title\nheading:: true\nfoo:: bar";
+  const output = extractHeading({ content: block });
+  expect(output).toEqual({
+    heading: "true",
+    headingForm: "property",
+    content: "Title\nfoo:: bar",
+  });
+  expect(applyHeading(output)).toEqual(block);
+});
+
+test("Markdown blocks keep the heading property when they used it", () => {
+  const block = "Title\nheading:: 2";
+  const output = extractHeading({ content: block });
+  expect(output).toEqual({
+    heading: "2",
+    headingForm: "property",
+    content: "Title",
+  });
+  expect(applyHeading(output)).toEqual(block);
+});
+
+test("Org headings use the heading property", () => {
+  const output = extractHeading({
+    content: "Title\nheading:: 2",
+    format: "org",
+  });
+  expect(output).toEqual({
+    heading: "2",
+    headingForm: "property",
+    content: "Title",
+  });
+  expect(applyHeading({ ...output, format: "org" })).toEqual(
+    "Title\nheading:: 2"
+  );
+});
+
+test("Headings from other apps are restored", () => {
+  expect(applyHeading({ content: "Title", heading: "h3" })).toEqual(
+    "### Title"
+  );
+  expect(applyHeading({ content: "Title", heading: "toggle" })).toEqual(
+    "Title"
+  );
+});
@@ -0,0 +1,244 @@
+import { test, expect } from "@playwright/test";
+import fc from "fast-check";
+import diffBlockTree, {
+  ActualBlock,
+  BlockPosition,
+  BlockTreeOperation,
+  ExpectedBlock,
+  InsertedBlock,
+} from "../src/utils/diffBlockTree";
+
+const ROOT = "root";
+
+// Applies operations the way Logseq's Editor API would, blocks moving and leaving with their children
+const applyOperations = (
+  actual: ActualBlock[],
+  operations: BlockTreeOperation[]
+) => {
+  const contents = new Map(actual.map((a) => [a.uuid, a.content]));
+  const children = new Map<string, string[]>([[ROOT, []]]);
+  const parents = new Map<string, string>();
+  const stack: ActualBlock[] = [];
+  actual.forEach((a) => {
+    while (stack.length && stack[stack.length - 1].level >= a.level) {
+      stack.pop();
+    }
+    const parent = stack.length ? stack[stack.length - 1].uuid : ROOT;
+    children.get(parent)?.push(a.uuid);
+    children.set(a.uuid, []);
+    parents.set(a.uuid, parent);
+    stack.push(a);
+  });
+  const detach = (id: string) => {
+    const siblings = children.get(parents.get(id) || "") || [];
+    siblings.splice(siblings.indexOf(id), 1);
+  };
+  const attach = (
+    id: string,
+    { relation, target }: { relation: string; target: string }
+  ) => {
+    const parent = relation === "child" ? target : parents.get(target) || "";
+    const siblings = children.get(parent) || [];
+    const index =
+      relation === "child"
+        ? 0
+        : siblings.indexOf(target) + (relation === "after" ? 1 : 0);
+    siblings.splice(index, 0, id);
+    parents.set(id, parent);
+  };
+  operations.forEach((op) => {
+    if (op.type === "update") {
+      contents.set(op.id, op.content);
+    } else if (op.type === "insert") {
+      const insert = (blocks: InsertedBlock[], position: BlockPosition) =>
+        blocks.reduce((target, { id, content, children: nested }) => {
+          contents.set(id, content);
+          children.set(id, []);
+          attach(id, target);
+          insert(nested, { relation: "child", target: id });
+          return { relation: "after", target: id } as BlockPosition;
+        }, position);
+      insert(op.blocks, op);
+    } else if (op.type === "move") {
+      detach(op.id);
+      attach(op.id, op);
+    } else {
+      detach(op.id);
+    }
+  });
+  const flatten = (id: string, level: number): ActualBlock[] =>
+    (children.get(id) || []).flatMap((uuid) => [
+      { uuid, content: contents.get(uuid) || "", level },
+      ...flatten(uuid, level + 1),
+    ]);
+  return flatten(ROOT, 1);
+};
+
+const toActual = (blocks: ExpectedBlock[]) =>
+  blocks.map((b, i) => ({ ...b, uuid: `uuid-${i}` }));
+
+const runDiff = (before: ExpectedBlock[], after: ExpectedBlock[]) => {
+  const actual = toActual(before);
+  const { operations } = diffBlockTree({ expected: after, actual, root: ROOT });
+  const result = applyOperations(actual, operations);
+  expect(result.map(({ content, level }) => ({ content, level }))).toEqual(
+    after.map(({ content, level }) => ({ content, level }))
+  );
+  return { operations, result };
+};
+
+const page: ExpectedBlock[] = [
+  { content: "a", level: 1 },
+  { content: "b", level: 2 },
+  { content: "c", level: 2 },
+  { content: "d", level: 1 },
+  { content: "e", level: 1 },
+];
+
+test("Inserting a block at the top only inserts that block", () => {
+  const { operations, result } = runDiff(page, [
+    { content: "new", level: 1 },
+    ...page,
+  ]);
+  expect(operations).toEqual([
+    {
+      type: "insert",
+      blocks: [{ id: "new:0", content: "new", children: [] }],
+      relation: "before",
+      target: "uuid-0",
+    },
+  ]);
+  expect(result.slice(1).map((r) => r.uuid)).toEqual(
+    toActual(page).map((a) => a.uuid)
+  );
+});
+
+test("Editing a block only updates that block", () => {
+  const { operations } = runDiff(
+    page,
+    page.map((b) => (b.content === "c" ? { ...b, content: "changed" } : b))
+  );
+  expect(operations).toEqual([
+    { type: "update", id: "uuid-2", content: "changed" },
+  ]);
+});
+
+test("Reordering and indenting blocks moves them without recreating", () => {
+  const { operations } = runDiff(page, [
+    { content: "a", level: 1 },
+    { content: "b", level: 2 },
+    { content: "c", level: 2 },
+    { content: "e", level: 1 },
+    { content: "d", level: 2 },
+  ]);
+  expect(operations).toEqual([
+    { type: "move", id: "uuid-4", relation: "after", target: "uuid-0" },
+    { type: "move", id: "uuid-3", relation: "child", target: "uuid-4" },
+  ]);
+});
+
+test("Deleting a parent keeps its remaining children", () => {
+  const { operations, result } = runDiff(page, [
+    { content: "b", level: 1 },
+    { content: "c", level: 1 },
+    { content: "d", level: 1 },
+    { content: "e", level: 1 },
+  ]);
+  expect(operations.filter((op) => op.type === "remove")).toEqual([
+    { type: "remove", id: "uuid-0" },
+  ]);
+  expect(result.map((r) => r.uuid)).toEqual([
+    "uuid-1",
+    "uuid-2",
+    "uuid-3",
+    "uuid-4",
+  ]);
+});
+
+test("Blocks with a known uuid keep it even when edited and moved", () => {
+  const { operations, result } = runDiff(page, [
+    { content: "a", level: 1 },
+    { content: "c", level: 2 },
+    { content: "d", level: 1 },
+    { content: "b, edited", level: 1, uuid: "uuid-1" },
+    { content: "e", level: 1 },
+  ]);
+  expect(operations).toEqual([
+    { type: "move", id: "uuid-2", relation: "before", target: "uuid-1" },
+    { type: "update", id: "uuid-1", content: "b, edited" },
+    { type: "move", id: "uuid-1", relation: "after", target: "uuid-3" },
+  ]);
+  expect(result.map((r) => r.uuid)).toEqual([
+    "uuid-0",
+    "uuid-2",
+    "uuid-3",
+    "uuid-1",
+    "uuid-4",
+  ]);
+});
+
+test("New blocks next to each other are inserted as one tree", () => {
+  const { operations } = runDiff(page, [
+    { content: "a", level: 1 },
+    { content: "x", level: 2 },
+    { content: "y", level: 3 },
+    { content: "z", level: 2 },
+    { content: "b", level: 2 },
+    { content: "c", level: 2 },
+    { content: "d", level: 1 },
+    { content: "e", level: 1 },
+  ]);
+  expect(operations).toEqual([
+    {
+      type: "insert",
+      blocks: [
+        {
+          id: "new:1",
+          content: "x",
+          children: [{ id: "new:2", content: "y", children: [] }],
+        },
+        { id: "new:3", content: "z", children: [] },
+      ],
+      relation: "before",
+      target: "uuid-1",
+    },
+  ]);
+});
+
+const tree = fc
+  .array(
+    fc.record({
+      content: fc.constantFrom("a", "b", "c", "d", "e", ""),
+      indent: fc.integer({ min: -2, max: 1 }),
+    }),
+    { maxLength: 12 }
+  )
+  .map((blocks) =>
+    blocks.reduce((p, { content, indent }) => {
+      const previous = p.length ? p[p.length - 1].level : 0;
+      return p.concat({ content, level: Math.max(1, previous + indent) });
+    }, [] as ExpectedBlock[])
+  );
+
+const count = (blocks: ExpectedBlock[], content: string) =>
+  blocks.filter((b) => b.content === content).length;
+
+test("Any tree can be turned into any other, keeping unchanged blocks", () => {
+  fc.assert(
+    fc.property(tree, tree, (before, after) => {
+      const { result } = runDiff(before, after);
+      const original = new Map(toActual(before).map((a) => [a.uuid, a]));
+      const unchanged = result.filter(
+        (r) => original.get(r.uuid)?.content === r.content
+      ).length;
+      const contents = new Set(after.map((b) => b.content));
+      expect(unchanged).toBe(
+        Array.from(contents).reduce(
+          (total, content) =>
+            total + Math.min(count(before, content), count(after, content)),
+          0
+        )
+      );
+    })
+  );
+});
@@ -0,0 +1,301 @@
+import type { InitialSchema } from "samepage/internal/types";
+import { test, expect } from "@playwright/test";
+import { v4 } from "uuid";
+import atJsonToOrg from "../src/utils/atJsonToOrg";
+import blockParser, {
+  BlockParserDiagnostic,
+  removeHiddenProperties,
+} from "../src/utils/blockParser";
+import orgBlockParser from "../src/utils/orgBlockParser";
+import registry from "samepage/internal/registry";
+
+const notebookUuid = v4();
+// @ts-ignore
+global.localStorage = {
+  getItem: () => JSON.stringify({ uuid: notebookUuid }),
+};
+global.window = {
+  // @ts-ignore
+  logseq: {
+    settings: {
+      uuid: notebookUuid,
+    },
+  },
+};
+
+const runTest =
+  (
+    org: string,
+    expected: InitialSchema,
+    opts: { debug?: true; skipInverse?: true } = {}
+  ) =>
+  () => {
+    const output = orgBlockParser(org, opts);
+    expect(output).toBeTruthy();
+    expect(output).toEqual(expected);
+    if (!opts.skipInverse) expect(atJsonToOrg(output)).toEqual(org);
+  };
+
+test.beforeAll(() => {
+  registry({ app: "logseq" });
+});
+
+test(
+  "Org bold and italics",
+  runTest("A *bold* and /italic/ text", {
+    content: "A bold and italic text",
+    annotations: [
+      {
+        type: "bold",
+        start: 2,
+        end: 6,
+        attributes: { delimiter: "*" },
+      },
+      {
+        type: "italics",
+        start: 11,
+        end: 17,
+        attributes: { delimiter: "/" },
+      },
+    ],
+  })
+);
+
+test(
+  "Org nested emphasis",
+  runTest("*bold /and italic/*", {
+    content: "bold and italic",
+    annotations: [
+      {
+        type: "bold",
+        start: 0,
+        end: 15,
+        attributes: { delimiter: "*" },
+      },
+      {
+        type: "italics",
+        start: 5,
+        end: 15,
+        attributes: { delimiter: "/" },
+      },
+    ],
+  })
+);
+
+test(
+  "Org strikethrough, underline and code",
+  runTest("+gone+ _under_ ~code~ =verbatim=", {
+    content: "gone under code verbatim",
+    annotations: [
+      {
+        type: "strikethrough",
+        start: 0,
+        end: 4,
+        attributes: { delimiter: "+" },
+      },
+      {
+        type: "custom",
+        start: 5,
+        end: 10,
+        attributes: { name: "underline" },
+      },
+      {
+        type: "code",
+        start: 11,
+        end: 15,
+        attributes: { language: "", ticks: 1 },
+      },
+      {
+        type: "code",
+        start: 16,
+        end: 24,
+        attributes: { language: "", ticks: 1 },
+        appAttributes: { logseq: { delimiter: "=" } },
+      },
+    ],
+  })
+);
+
+test(
+  "Org delimiters inside words stay text",
+  runTest("path/to/file and snake_case_name and a*b*c", {
+    content: "path/to/file and snake_case_name and a*b*c",
+    annotations: [],
+  })
+);
+
+test(
+  "Org external link with label",
+  runTest("See [[https://samepage.network][SamePage]] now", {
+    content: "See SamePage now",
+    annotations: [
+      {
+        type: "link",
+        start: 4,
+        end: 12,
+        attributes: { href: "https://samepage.network" },
+      },
+    ],
+  })
+);
+
+test(
+  "Org external link without label",
+  runTest("[[https://samepage.network]]", {
+    content: "https://samepage.network",
+    annotations: [
+      {
+        type: "link",
+        start: 0,
+        end: 24,
+        attributes: { href: "https://samepage.network" },
+      },
+    ],
+  })
+);
+
+test(
+  "Org page reference",
+  runTest("A [[page]] and a [[page][label]]", {
+    content: `A ${String.fromCharCode(0)} and a label`,
+    annotations: [
+      {
+        type: "reference",
+        start: 2,
+        end: 3,
+        attributes: { notebookPageId: "page", notebookUuid },
+        appAttributes: { logseq: { kind: "wikilink" } },
+      },
+      {
+        type: "reference",
+        start: 10,
+        end: 15,
+        attributes: { notebookPageId: "page", notebookUuid },
+        appAttributes: { logseq: { kind: "wikilink" } },
+      },
+    ],
+  })
+);
+
+test(
+  "Org tags and block references",
+  runTest("#tag ((abcd1234-abcd-1234-abcd-1234abcd1234))", {
+    content: `${String.fromCharCode(0)} ${String.fromCharCode(0)}`,
+    annotations: [
+      {
+        type: "reference",
+        start: 0,
+        end: 1,
+        attributes: { notebookPageId: "tag", notebookUuid },
+        appAttributes: { logseq: { kind: "hash" } },
+      },
+      {
+        type: "reference",
+        start: 2,
+        end: 3,
+        attributes: {
+          notebookPageId: "abcd1234-abcd-1234-abcd-1234abcd1234",
+          notebookUuid,
+        },
+      },
+    ],
+  })
+);
+
+test(
+  "Org source blocks",
+  runTest('#+BEGIN_SRC python\nprint("*hi*")\n#+END_SRC', {
+    content: 'print("*hi*")\n',
+    annotations: [
+      {
+        type: "code",
+        start: 0,
+        end: 14,
+        attributes: { language: "python" },
+      },
+    ],
+  })
+);
+
+test(
+  "Org task marker",
+  runTest("TODO write /docs/", {
+    content: `${String.fromCharCode(0)} write docs`,
+    annotations: [
+      {
+        type: "custom",
+        start: 0,
+        end: 1,
+        attributes: { name: "todo" },
+        appAttributes: { logseq: { marker: "TODO" } },
+      },
+      {
+        type: "italics",
+        start: 8,
+        end: 12,
+        attributes: { delimiter: "/" },
+      },
+    ],
+  })
+);
+
+test(
+  "Org admonition blocks",
+  runTest("#+BEGIN_WARNING\nCareful\n#+END_WARNING", {
+    content: "Careful",
+    annotations: [
+      {
+        type: "custom",
+        start: 0,
+        end: 7,
+        attributes: { name: "callout" },
+        appAttributes: { logseq: { type: "warning" } },
+      },
+    ],
+  })
+);
+
+test("Org emphasis around a page reference keeps the reference", () => {
+  expect(atJsonToOrg(blockParser("a **[[page]]** b"))).toEqual(
+    "a *[[page]]* b"
+  );
+});
+
+test("Footnotes keep their label when written to Org", () => {
+  const state = blockParser("see [^7]\n[^7]: note");
+  expect(atJsonToOrg(state)).toBe("see [^7]\n[^7]: note");
+});
+
+test("Hidden properties are removed from Org property drawers", () => {
+  expect(removeHiddenProperties("Title\n:PROPERTIES:\n:id: 123\n:END:")).toBe(
+    "Title"
+  );
+  expect(
+    removeHiddenProperties(
+      "Title\n:PROPERTIES:\n:ID: 123\n:owner: me\n:END:\nBody"
+    )
+  ).toBe("Title\n:PROPERTIES:\n:owner: me\n:END:\nBody");
+});
+
+test("Org lines that don't parse fall back to text with a diagnostic", () => {
+  const diagnostics: BlockParserDiagnostic[] = [];
+  const output = orgBlockParser("a\n#[[*^^*]]\n*b*", {
+    onDiagnostic: (d) => diagnostics.push(d),
+  });
+  expect(output).toEqual({
+    content: "a\n#[[*^^*]]\nb",
+    annotations: [
+      {
+        type: "custom",
+        start: 2,
+        end: 11,
+        attributes: { name: "verbatim" },
+      },
+      { type: "bold", start: 12, end: 13, attributes: { delimiter: "*" } },
+    ],
+  });
+  expect(
+    diagnostics.map(({ reason, position }) => ({ reason, position }))
+  ).toEqual([{ reason: "ambiguous", position: 2 }]);
+  expect(atJsonToOrg(output)).toEqual("a\n#[[*^^*]]\n*b*");
+});
@@ -0,0 +1,114 @@
+import { test, expect } from "@playwright/test";
+import vm from "vm";
+import { v4 } from "uuid";
+import atJsonToLogseq from "../src/utils/atJsonToLogseq";
+import blockParser from "../src/utils/blockParser";
+import registerExtension from "../src/utils/registerExtension";
+import registry from "samepage/internal/registry";
+
+const notebookUuid = v4();
+global.window = {
+  // @ts-ignore
+  logseq: {
+    settings: {
+      uuid: notebookUuid,
+    },
+  },
+};
+
+test.beforeAll(() => {
+  registry({ app: "logseq" });
+});
+
+const commentExtension = (
+  comment: RegExp
+): Parameters<typeof registerExtension>[0] => ({
+  lexerRules: { comment },
+  grammarRules: [
+    {
+      name: "blockElement",
+      symbols: [{ type: "comment" }],
+      postprocess: (data) => {
+        const [token] = data as [moo.Token];
+        const content = token.value.slice(2, -2);
+        return {
+          content,
+          annotations: [
+            {
+              type: "custom",
+              start: 0,
+              end: content.length,
+              attributes: { name: "comment" },
+            },
+          ],
+        };
+      },
+    },
+  ],
+  renderers: {
+    comment: () => ({ prefix: "%%", suffix: "%%" }),
+  },
+});
+
+test("Extensions contribute tokens, rules and renderers", () => {
+  const unregister = registerExtension(commentExtension(/%%[^%\n]+%%/));
+  const md = "A **bold %%note%%** and text%%after%%";
+  const output = blockParser(md);
+  expect(output).toEqual({
+    content: "A bold note and textafter",
+    annotations: [
+      {
+        type: "bold",
+        start: 2,
+        end: 11,
+        attributes: { delimiter: "**" },
+      },
+      {
+        type: "custom",
+        start: 7,
+        end: 11,
+        attributes: { name: "comment" },
+      },
+      {
+        type: "custom",
+        start: 20,
+        end: 25,
+        attributes: { name: "comment" },
+      },
+    ],
+  });
+  expect(atJsonToLogseq(output)).toEqual(md);
+
+  unregister();
+  expect(blockParser(md)).toEqual({
+    content: "A bold %%note%% and text%%after%%",
+    annotations: [
+      {
+        type: "bold",
+        start: 2,
+        end: 15,
+        attributes: { delimiter: "**" },
+      },
+    ],
+  });
+});
+
+test("Extensions built in another frame still stop text at their tokens", () => {
+  const unregister = registerExtension(
+    commentExtension(vm.runInNewContext("/%%[^%\\n]+%%/"))
+  );
+  const md = "text%%after%%";
+  const output = blockParser(md);
+  unregister();
+  expect(output).toEqual({
+    content: "textafter",
+    annotations: [
+      {
+        type: "custom",
+        start: 4,
+        end: 9,
+        attributes: { name: "comment" },
+      },
+    ],
+  });
+});
@@ -0,0 +1,199 @@
+import type { InitialSchema } from "samepage/internal/types";
+import { test, expect } from "@playwright/test";
+import fc from "fast-check";
+import { v4 } from "uuid";
+import atJsonToLogseq from "../src/utils/atJsonToLogseq";
+import blockParser, { BlockParserDiagnostic } from "../src/utils/blockParser";
+import registry from "samepage/internal/registry";
+import { zSamePageSchema } from "samepage/internal/types";
+
+const notebookUuid = v4();
+global.window = {
+  // @ts-ignore
+  logseq: {
+    settings: {
+      uuid: notebookUuid,
+    },
+  },
+};
+
+test.beforeAll(() => {
+  registry({ app: "logseq" });
+});
+
+const word = fc.stringMatching(/^[a-z]{1,8}$/);
+const words = fc
+  .array(word, { minLength: 1, maxLength: 3 })
+  .map((ws) => ws.join(" "));
+
+// Logseq only reads a single _ as a delimiter with whitespace on its outer side
+const withoutUnderEdges = (s: string) => !/^_|_$/.test(s);
+
+// Italics don't nest, and a closing _ right after a tag is part of the tag
+const isItalicsContent = (s: string) => !s.includes("_") && !/#\w+$/.test(s);
+
+const closingPunctuation = fc.constantFrom(
+  "",
+  ")",
+  ",",
+  ".",
+  "!",
+  "?",
+  ";",
+  '"'
+);
+
+// ** is a delimiter next to punctuation, while a single _ after punctuation is text.
+// An opening _ is always preceded by punctuation, since one left unclosed inside emphasis is ambiguous.
+const punctuated = (s: string, open: string[]) =>
+  fc
+    .tuple(fc.constantFrom(...open), closingPunctuation)
+    .map(([o, c]) => `${o}${s}${c}`);
+
+// Every construct is written the way atJsonToLogseq writes it back
+const { inline } = fc.letrec<{ inline: string; element: string }>((tie) => ({
+  inline: fc
+    .array(tie("element"), { minLength: 1, maxLength: 3 })
+    .map((es) => es.join(" ")),
+  element: fc.oneof(
+    { maxDepth: 2, withCrossShrink: true },
+    words,
+    tie("inline")
+      .filter(withoutUnderEdges)
+      .map((s) => `**${s}**`),
+    tie("inline")
+      .filter(isItalicsContent)
+      .map((s) => `_${s}_`),
+    tie("inline")
+      .filter(withoutUnderEdges)
+      .map((s) => `~~${s}~~`),
+    tie("inline")
+      .filter(withoutUnderEdges)
+      .map((s) => `^^${s}^^`),
+    words.chain((s) => punctuated(`_${s}_`, ["(", '"'])),
+    words.chain((s) => punctuated(`**${s}**`, ["", "(", '"'])),
+    words.map((s) => `[[${s}]]`),
+    fc.tuple(words, words).map(([a, b]) => `[[${a} [[${b}]]]]`),
+    word.map((s) => `#${s}`),
+    words.map((s) => `\`${s}\``),
+    words.map((s) => `$${s}$`),
+    word.map((s) => `[^${s}]`),
+    fc.constantFrom("\\*", "\\_", "\\[", "\\`"),
+    words.map((s) => `[${s}](https://samepage.network)`),
+    fc.constant("https://samepage.network")
+  ),
+}));
+
+// Cells hold a single line without pipes of their own
+const cell = fc.oneof(
+  words,
+  words.map((s) => `**${s}**`),
+  words.map((s) => `[[${s}]]`),
+  word.map((s) => `#${s}`)
+);
+
+const tableRow = (cells: string[]) => `| ${cells.join(" | ")} |`;
+
+// Constructs that span whole lines, written after any other line of the block
+const line = fc.oneof(
+  { weight: 4, arbitrary: inline },
+  inline.map((s) => `> ${s}`),
+  fc.constant("> "),
+  fc
+    .tuple(
+      fc.integer({ min: 1, max: 3 }),
+      fc.array(cell, { minLength: 1, maxLength: 6 })
+    )
+    .map(([width, cells]) => {
+      const rows = Array(Math.ceil(cells.length / width))
+        .fill(null)
+        .map((_, i) =>
+          Array(width)
+            .fill(null)
+            .map((__, j) => cells[i * width + j] || "x")
+        );
+      return [
+        tableRow(rows[0]),
+        tableRow(rows[0].map(() => "---")),
+        ...rows.slice(1).map(tableRow),
+      ].join("\n");
+    }),
+  words.map((s) => `$$${s}$$`),
+  fc.tuple(word, inline).map(([label, s]) => `[^${label}]: ${s}`),
+  fc
+    .tuple(fc.constantFrom("NOTE", "TIP", "WARNING", "QUOTE"), inline)
+    .map(([type, s]) => `#+BEGIN_${type}\n${s}\n#+END_${type}`)
+);
+
+const markdown = fc
+  .array(line, { minLength: 1, maxLength: 3 })
+  .map((lines) => lines.join("\n"));
+
+const delimiterSoup = fc
+  .array(
+    fc.constantFrom("a", "b", " ", "*", "_", "~", "^", "[", "]", "#", "\n"),
+    { maxLength: 12 }
+  )
+  .map((cs) => cs.join(""));
+
+const expectValidAnnotations = (state: InitialSchema) => {
+  const { content, annotations } = state;
+  expect(zSamePageSchema.safeParse(state).success).toBe(true);
+  annotations.forEach((a) => {
+    expect(a.start).toBeGreaterThanOrEqual(0);
+    expect(a.end).toBeGreaterThan(a.start);
+    expect(a.end).toBeLessThanOrEqual(content.length);
+  });
+  const bolds = annotations.filter((a) => a.type === "bold");
+  bolds.forEach((a, i) =>
+    bolds
+      .slice(i + 1)
+      .forEach((b) => expect(a.end <= b.start || b.end <= a.start).toBe(true))
+  );
+};
+
+test("Generated markdown round trips", () => {
+  fc.assert(
+    fc.property(markdown, (md) => {
+      const output = blockParser(md);
+      expectValidAnnotations(output);
+      expect(atJsonToLogseq(output)).toEqual(md);
+    }),
+    { numRuns: 200 }
+  );
+});
+
+test("Stray delimiters parse into valid annotations", () => {
+  fc.assert(
+    fc.property(delimiterSoup, (md) => {
+      const diagnostics: BlockParserDiagnostic[] = [];
+      const output = blockParser(md, {
+        onDiagnostic: (d) => diagnostics.push(d),
+      });
+      expectValidAnnotations(output);
+      diagnostics.forEach((d) => {
+        expect(d.position).toBeGreaterThanOrEqual(0);
+        expect(d.position).toBeLessThanOrEqual(md.length);
+      });
+      // Lines that fell back to text are escaped on the way out, so only clean parses have to match,
+      // apart from the escapes added to keep stray delimiters literal
+      if (!diagnostics.length) {
+        const reparsed = blockParser(atJsonToLogseq(output));
+        expect({
+          ...reparsed,
+          annotations: reparsed.annotations.filter(
+            (a) =>
+              !(a.type === "custom" && a.attributes.name === "escape") ||
+              output.annotations.some(
+                (o) =>
+                  o.type === "custom" &&
+                  o.attributes.name === "escape" &&
+                  o.start === a.start
+              )
+          ),
+        }).toEqual(output);
+      }
+    }),
+    { numRuns: 200 }
+  );
+});
@@ -0,0 +1,544 @@
+import type {
+  BlockEntity,
+  IBatchBlock,
+  PageEntity,
+} from "@logseq/libs/dist/LSPlugin.user";
+import { test, expect } from "@playwright/test";
+import { v4 } from "uuid";
+import {
+  applyState,
+  listenForChanges,
+  REFRESH_DELAY,
+  snapshotQueries,
+} from "../src/protocols/sharePageWithNotebook";
+import toAtJson from "../src/utils/toAtJson";
+import blockParser from "../src/utils/blockParser";
+import registry from "samepage/internal/registry";
+import { onAppEvent } from "samepage/internal/registerAppEventListener";
+import { deleteId, set as setShared } from "samepage/utils/localAutomergeDb";
+
+type MockBlock = { uuid: string; content: string; children: MockBlock[] };
+
+// An in-memory page that answers the Editor calls applyState makes, failing on the content given
+const mockEditor = (blocks: MockBlock[], { failOn }: { failOn: string }) => {
+  const tree = blocks;
+  const page = { uuid: v4(), originalName: "page", format: "markdown" };
+  const locate = (
+    uuid: string,
+    siblings = tree
+  ): { siblings: MockBlock[]; index: number } | undefined => {
+    const index = siblings.findIndex((b) => b.uuid === uuid);
+    if (index >= 0) return { siblings, index };
+    return siblings.map((b) => locate(uuid, b.children)).find((found) => found);
+  };
+  const toEntity = (b: MockBlock, level: number): BlockEntity =>
+    ({
+      uuid: b.uuid,
+      content: b.content,
+      format: "markdown",
+      level,
+      children: b.children.map((c) => toEntity(c, level + 1)),
+    } as unknown as BlockEntity);
+  const place = (
+    target: string,
+    inserted: MockBlock[],
+    { before, sibling }: { before?: boolean; sibling?: boolean }
+  ) => {
+    const found = locate(target);
+    if (!found) throw new Error(`Block ${target} is missing`);
+    if (sibling === false) {
+      found.siblings[found.index].children.unshift(...inserted);
+    } else {
+      found.siblings.splice(found.index + (before ? 0 : 1), 0, ...inserted);
+    }
+  };
+  const fail = (content: string) =>
+    content === failOn
+      ? Promise.reject(new Error(`Logseq rejected ${content}`))
+      : undefined;
+  const toBlocks = (batch: IBatchBlock[]): MockBlock[] =>
+    batch.map((b) => ({
+      uuid: b.properties?.id || v4(),
+      content: b.content,
+      children: toBlocks(b.children || []),
+    }));
+  const flatten = (bs: MockBlock[]): MockBlock[] =>
+    bs.flatMap((b) => [b, ...flatten(b.children)]);
+  return {
+    tree: () => tree.map((b) => toEntity(b, 1)),
+    editor: {
+      getPage: () => Promise.resolve(page as PageEntity),
+      getPageBlocksTree: () => Promise.resolve(tree.map((b) => toEntity(b, 1))),
+      getBlock: () => Promise.resolve(null),
+      updateBlock: (uuid: string, content: string) => {
+        const found = locate(uuid);
+        if (!found) return Promise.reject(new Error(`${uuid} is missing`));
+        found.siblings[found.index].content = content;
+        return fail(content) || Promise.resolve();
+      },
+      removeBlock: (uuid: string) => {
+        const found = locate(uuid);
+        if (found) found.siblings.splice(found.index, 1);
+        return Promise.resolve();
+      },
+      moveBlock: (
+        uuid: string,
+        target: string,
+        { before, children }: { before?: boolean; children?: boolean }
+      ) => {
+        const found = locate(uuid);
+        if (!found) return Promise.reject(new Error(`${uuid} is missing`));
+        const [block] = found.siblings.splice(found.index, 1);
+        place(target, [block], { before, sibling: !children });
+        return Promise.resolve();
+      },
+      appendBlockInPage: (_: string, content: string) => {
+        const block = { uuid: v4(), content, children: [] };
+        tree.push(block);
+        return fail(content) || Promise.resolve(toEntity(block, 1));
+      },
+      insertBlock: (
+        target: string,
+        content: string,
+        opts: { before?: boolean; sibling?: boolean }
+      ) => {
+        const failed = fail(content);
+        if (failed) return failed;
+        const block = { uuid: v4(), content, children: [] };
+        place(target, [block], opts);
+        return Promise.resolve(toEntity(block, 1));
+      },
+      insertBatchBlock: (
+        target: string,
+        batch: IBatchBlock[],
+        opts: { before?: boolean; sibling?: boolean }
+      ) => {
+        const inserted = toBlocks(batch);
+        const failed = flatten(inserted)
+          .map((b) => fail(b.content))
+          .find((f) => f);
+        if (failed) return failed;
+        place(target, inserted, opts);
+        return Promise.resolve(flatten(inserted).map((b) => toEntity(b, 1)));
+      },
+    },
+  };
+};
+
+type ChangeEvent = {
+  blocks: BlockEntity[];
+  txMeta?: { outlinerOp: string };
+};
+
+// Stands in for Logseq's DB.onChanged, letting the test report changed blocks itself
+const mockDB = () => {
+  const handlers: ((e: ChangeEvent) => unknown)[] = [];
+  return {
+    DB: {
+      onChanged: (handler: (e: ChangeEvent) => unknown) => {
+        handlers.push(handler);
+        return () => handlers.splice(handlers.indexOf(handler), 1);
+      },
+    },
+    change: (blocks: Partial<BlockEntity>[], outlinerOp?: string) =>
+      handlers.forEach((h) =>
+        h({
+          blocks: blocks as BlockEntity[],
+          txMeta: outlinerOp ? { outlinerOp } : undefined,
+        })
+      ),
+  };
+};
+
+const mockRefreshes = () => {
+  const refreshes: { notebookPageId: string; label: string }[] = [];
+  return {
+    refreshes,
+    refreshContent: (args: { notebookPageId: string; label: string }) => {
+      refreshes.push(args);
+      return Promise.resolve();
+    },
+  };
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const notebookUuid = v4();
+
+test.beforeAll(() => {
+  registry({ app: "logseq" });
+});
+
+test("A failing apply restores the page with the uuids it had", async () => {
+  const original = [
+    { uuid: v4(), content: "one", children: [] },
+    { uuid: v4(), content: "two", children: [] },
+    { uuid: v4(), content: "three", children: [] },
+  ];
+  const { editor, tree } = mockEditor(
+    original.map((b) => ({ ...b, children: [] })),
+    { failOn: "four" }
+  );
+  global.window = {
+    // @ts-ignore
+    logseq: { settings: { uuid: notebookUuid }, Editor: editor },
+  };
+  const logs: { id: string; content: string }[] = [];
+  const offLog = onAppEvent("log", (e) => logs.push(e));
+
+  const state = toAtJson({
+    nodes: ["one, edited", "three", "four"].map(
+      (content) =>
+        ({
+          uuid: v4(),
+          content,
+          format: "markdown",
+          level: 1,
+          children: [],
+        } as unknown as BlockEntity)
+    ),
+  });
+  try {
+    await expect(applyState("page", state)).rejects.toThrow(
+      "Logseq rejected four"
+    );
+  } finally {
+    offLog();
+  }
+
+  expect(
+    tree().map(({ uuid, content, level }) => ({ uuid, content, level }))
+  ).toEqual(original.map(({ uuid, content }) => ({ uuid, content, level: 1 })));
+  expect(logs).toEqual([
+    expect.objectContaining({
+      id: "apply-state-failure",
+      content: expect.stringContaining("so the page was left as it was"),
+    }),
+  ]);
+});
+
+test("Edits to a shared page are sent once they settle", async () => {
+  const { DB, change } = mockDB();
+  global.window = {
+    // @ts-ignore
+    logseq: { settings: { uuid: notebookUuid }, DB },
+    setTimeout,
+    clearTimeout,
+  };
+  setShared("Settling");
+  const { refreshes, refreshContent } = mockRefreshes();
+  const { unlisten } = listenForChanges({ refreshContent });
+
+  try {
+    change([{ originalName: "Settling" }]);
+    await wait(REFRESH_DELAY / 2);
+    change([{ originalName: "Settling" }], "saveBlock");
+    await wait(REFRESH_DELAY / 2);
+    expect(refreshes).toEqual([]);
+    await wait(REFRESH_DELAY);
+    expect(refreshes).toEqual([
+      { notebookPageId: "Settling", label: "saveBlock" },
+    ]);
+  } finally {
+    unlisten();
+    deleteId("Settling");
+  }
+});
+
+test("A changed block is sent for its page and every block above it", async () => {
+  const { DB, change } = mockDB();
+  const parent = { uuid: v4(), page: { id: 1 }, parent: { id: 1 } };
+  const child = { uuid: v4(), page: { id: 1 }, parent: { id: 2 } };
+  global.window = {
+    // @ts-ignore
+    logseq: {
+      settings: { uuid: notebookUuid },
+      DB,
+      Editor: {
+        getPage: (id: number) =>
+          Promise.resolve(id === 1 ? { originalName: "Parents" } : null),
+        getBlock: (id: number) => Promise.resolve(id === 2 ? parent : null),
+      },
+    },
+    setTimeout,
+    clearTimeout,
+  };
+  const ids = ["Parents", parent.uuid, child.uuid];
+  ids.forEach((id) => setShared(id));
+  const { refreshes, refreshContent } = mockRefreshes();
+  const { unlisten } = listenForChanges({ refreshContent });
+
+  try {
+    change([child, parent]);
+    await wait(REFRESH_DELAY * 1.5);
+    expect(refreshes.map((r) => r.notebookPageId).sort()).toEqual(
+      ids.slice().sort()
+    );
+    expect(refreshes.every((r) => r.label === "Change")).toBe(true);
+  } finally {
+    unlisten();
+    ids.forEach(deleteId);
+  }
+});
+
+test("Edits made while a collaborator's state is applied are sent after it", async () => {
+  const { DB, change } = mockDB();
+  const { editor } = mockEditor(
+    [{ uuid: v4(), content: "one", children: [] }],
+    {
+      failOn: "",
+    }
+  );
+  global.window = {
+    // @ts-ignore
+    logseq: { settings: { uuid: notebookUuid }, DB, Editor: editor },
+    setTimeout,
+    clearTimeout,
+  };
+  setShared("page");
+  const { refreshes, refreshContent } = mockRefreshes();
+  const changes = listenForChanges({ refreshContent });
+  const state = toAtJson({
+    nodes: [
+      {
+        uuid: v4(),
+        content: "one, edited",
+        format: "markdown",
+        level: 1,
+        children: [],
+      } as unknown as BlockEntity,
+    ],
+  });
+
+  try {
+    const applied = changes.applyState("page", state);
+    change([{ originalName: "page" }], "saveBlock");
+    await applied;
+    await wait(REFRESH_DELAY / 2);
+    change([{ originalName: "page" }], "insertBlocks");
+    expect(refreshes).toEqual([]);
+    await wait(REFRESH_DELAY);
+    expect(refreshes).toEqual([
+      { notebookPageId: "page", label: "insertBlocks" },
+    ]);
+  } finally {
+    changes.unlisten();
+    deleteId("page");
+  }
+});
+
+test("Failing to look up changed blocks is logged", async () => {
+  const { DB, change } = mockDB();
+  global.window = {
+    // @ts-ignore
+    logseq: {
+      settings: { uuid: notebookUuid },
+      DB,
+      Editor: {
+        getBlock: () => Promise.reject(new Error("Logseq is closing")),
+      },
+    },
+    setTimeout,
+    clearTimeout,
+  };
+  const logs: { id: string; content: string }[] = [];
+  const offLog = onAppEvent("log", (e) => logs.push(e));
+  const { refreshes, refreshContent } = mockRefreshes();
+  const { unlisten } = listenForChanges({ refreshContent });
+
+  try {
+    change([{ uuid: v4(), page: { id: 1 }, parent: { id: 2 } }]);
+    await wait(0);
+    expect(logs).toEqual([
+      expect.objectContaining({
+        id: "changed-blocks-failure",
+        content: expect.stringContaining("Logseq is closing"),
+      }),
+    ]);
+    expect(refreshes).toEqual([]);
+  } finally {
+    offLog();
+    unlisten();
+  }
+});
+
+// Answers queries from the results given for each, recording the ones Logseq was asked to run
+const mockQueries = (results: Record<string, unknown>) => {
+  const ran: string[] = [];
+  const run = (query: string) => {
+    ran.push(query);
+    return Promise.resolve(results[query]);
+  };
+  global.window = {
+    // @ts-ignore
+    logseq: {
+      settings: { uuid: notebookUuid },
+      DB: { q: run, datascriptQuery: run },
+    },
+  };
+  return ran;
+};
+
+const NUL = String.fromCharCode(0);
+
+const toReference = (notebookPageId: string, start: number) => ({
+  type: "reference",
+  start,
+  end: start + 1,
+  attributes: { notebookPageId, notebookUuid },
+});
+
+test("A simple query is shared as references to its results", async () => {
+  const query = "{{query (task TODO)}}";
+  const [a, b] = [v4(), v4()];
+  const ran = mockQueries({
+    "(task TODO)": [
+      { uuid: a, content: "TODO one" },
+      { uuid: b, content: "TODO two" },
+    ],
+  });
+  const output = await snapshotQueries(blockParser(`Tasks: ${query}`));
+  expect(ran).toEqual(["(task TODO)"]);
+  expect(output).toEqual({
+    content: `Tasks: ${NUL}\n${NUL}`,
+    annotations: [
+      {
+        type: "custom",
+        start: 7,
+        end: 10,
+        attributes: { name: "query" },
+        appAttributes: { logseq: { query } },
+      },
+      toReference(a, 7),
+      toReference(b, 9),
+    ],
+  });
+});
+
+test("An advanced query runs its :query through datascript", async () => {
+  const query =
+    '#+BEGIN_QUERY\n{:title "Pages" :query [:find (pull ?p [*]) :where [?p :block/name]]}\n#+END_QUERY';
+  const ran = mockQueries({
+    "[:find (pull ?p [*]) :where [?p :block/name]]": [
+      [{ "original-name": "Page One" }],
+      [{ "original-name": "Page Two" }],
+    ],
+  });
+  const output = await snapshotQueries(blockParser(query));
+  expect(ran).toEqual(["[:find (pull ?p [*]) :where [?p :block/name]]"]);
+  expect(output).toEqual({
+    content: `${NUL}\n${NUL}`,
+    annotations: [
+      {
+        type: "custom",
+        start: 0,
+        end: 3,
+        attributes: { name: "query" },
+        appAttributes: { logseq: { query } },
+      },
+      toReference("Page One", 0),
+      toReference("Page Two", 2),
+    ],
+  });
+});
+
+test("Each query in a block gets its own results", async () => {
+  const ran = mockQueries({
+    "(task TODO)": [{ "original-name": "Page One" }],
+    "(task DONE)": [],
+  });
+  const output = await snapshotQueries(
+    blockParser("{{query (task TODO)}} then {{query (task DONE)}}")
+  );
+  expect(ran.sort()).toEqual(["(task DONE)", "(task TODO)"]);
+  expect(output).toEqual({
+    content: `${NUL} then ${NUL}`,
+    annotations: [
+      {
+        type: "custom",
+        start: 0,
+        end: 1,
+        attributes: { name: "query" },
+        appAttributes: { logseq: { query: "{{query (task TODO)}}" } },
+      },
+      toReference("Page One", 0),
+      {
+        type: "custom",
+        start: 7,
+        end: 8,
+        attributes: { name: "query" },
+        appAttributes: { logseq: { query: "{{query (task DONE)}}" } },
+      },
+    ],
+  });
+});
+
+test("Annotations around a query move with its snapshot", async () => {
+  mockQueries({
+    "(task TODO)": [
+      { "original-name": "Page One" },
+      { "original-name": "Two" },
+    ],
+  });
+  const output = await snapshotQueries(
+    blockParser("**a** {{query (task TODO)}} _b_")
+  );
+  expect(output).toEqual({
+    content: `a ${NUL}\n${NUL} b`,
+    annotations: [
+      {
+        type: "bold",
+        start: 0,
+        end: 1,
+        attributes: { delimiter: "**" },
+      },
+      {
+        type: "custom",
+        start: 2,
+        end: 5,
+        attributes: { name: "query" },
+        appAttributes: { logseq: { query: "{{query (task TODO)}}" } },
+      },
+      toReference("Page One", 2),
+      toReference("Two", 4),
+      {
+        type: "italics",
+        start: 6,
+        end: 7,
+        attributes: { delimiter: "_" },
+      },
+    ],
+  });
+});
+
+test("An annotation spanning exactly the query spans its snapshot", async () => {
+  mockQueries({
+    "(task TODO)": [
+      { "original-name": "Page One" },
+      { "original-name": "Two" },
+    ],
+  });
+  const output = await snapshotQueries(
+    blockParser("**{{query (task TODO)}}**")
+  );
+  expect(output).toEqual({
+    content: `${NUL}\n${NUL}`,
+    annotations: [
+      {
+        type: "bold",
+        start: 0,
+        end: 3,
+        attributes: { delimiter: "**" },
+      },
+      {
+        type: "custom",
+        start: 0,
+        end: 3,
+        attributes: { name: "query" },
+        appAttributes: { logseq: { query: "{{query (task TODO)}}" } },
+      },
+      toReference("Page One", 0),
+      toReference("Two", 2),
+    ],
+  });
+});
@@ -0,0 +1,142 @@
+import type { BlockEntity } from "@logseq/libs/dist/LSPlugin.user";
+import { test, expect } from "@playwright/test";
+import { v4 } from "uuid";
+import toAtJson from "../src/utils/toAtJson";
+import { clearParseCache } from "../src/utils/parseCache";
+import registry from "samepage/internal/registry";
+import { zSamePageSchema } from "samepage/internal/types";
+
+const notebookUuid = v4();
+global.window = {
+  // @ts-ignore
+  logseq: {
+    settings: {
+      uuid: notebookUuid,
+    },
+  },
+};
+
+test.beforeAll(() => {
+  registry({ app: "logseq" });
+});
+
+const mockBlock = (content: string, level = 1) =>
+  ({
+    uuid: v4(),
+    content,
+    format: "markdown",
+    level,
+    children: [],
+  } as unknown as BlockEntity);
+
+const mockPage = (size: number) =>
+  Array(size)
+    .fill(null)
+    .map((_, i) =>
+      mockBlock(
+        `Block ${i} has **bold**, _italics_, ~~strike~~ and a [[Page ${i}]] link`
+      )
+    );
+
+const time = (fn: () => unknown) => {
+  const start = performance.now();
+  fn();
+  return performance.now() - start;
+};
+
+test("Parse cache only re-parses changed blocks on a large page", () => {
+  clearParseCache();
+  const nodes = mockPage(5000);
+  const cold = time(() => toAtJson({ nodes }));
+
+  nodes[2500].content = "Only this block **changed**";
+  let warmResult: ReturnType<typeof toAtJson> | undefined;
+  const warm = time(() => {
+    warmResult = toAtJson({ nodes });
+  });
+
+  clearParseCache();
+  expect(warmResult).toEqual(toAtJson({ nodes }));
+  expect(warm).toBeLessThan(cold / 5);
+});
+
+test("Blocks that fall back to text report diagnostics on every encode", () => {
+  clearParseCache();
+  const nodes = [mockBlock("a\n*^^*\n**b**")];
+  const diagnostics: string[] = [];
+  const onDiagnostic = ({ blockUuid }: { blockUuid: string }) =>
+    diagnostics.push(blockUuid);
+  toAtJson({ nodes, onDiagnostic });
+  toAtJson({ nodes, onDiagnostic });
+  expect(diagnostics).toEqual([nodes[0].uuid, nodes[0].uuid]);
+});
+
+test("Blocks that fall back to text only reach the grammar once", () => {
+  clearParseCache();
+  const nodes = [mockBlock("*^^*")];
+  const diagnostics: string[] = [];
+  const onDiagnostic = ({ reason }: { reason: string }) =>
+    diagnostics.push(reason);
+  // samepage's parser logs every ambiguous parse outside of production
+  const { error } = console;
+  let parses = 0;
+  console.error = (message) => {
+    if (message === "RESULT") parses++;
+  };
+  try {
+    toAtJson({ nodes, onDiagnostic });
+    const firstParses = parses;
+    expect(firstParses).toBeGreaterThan(0);
+    toAtJson({ nodes, onDiagnostic });
+    expect(parses).toBe(firstParses);
+  } finally {
+    console.error = error;
+  }
+  expect(diagnostics).toEqual(["ambiguous", "ambiguous"]);
+});
+
+test("Blocks carry their SamePage id next to other app attributes", () => {
+  const nodes = [mockBlock("# Title"), mockBlock("Body")];
+  const { annotations } = toAtJson({
+    nodes,
+    blockIds: new Map([
+      [nodes[0].uuid, "first"],
+      [nodes[1].uuid, "second"],
+    ]),
+  });
+  expect(
+    annotations.filter((a) => a.type === "block").map((a) => a.appAttributes)
+  ).toEqual([
+    {
+      samepage: { id: "first" },
+      logseq: { heading: "1", headingForm: "markdown" },
+    },
+    { samepage: { id: "second" } },
+  ]);
+});
+
+test("Empty blockquotes still encode to a valid document", () => {
+  clearParseCache();
+  const nodes = [mockBlock("> "), mockBlock("a\n> ")];
+  const result = zSamePageSchema.safeParse(toAtJson({ nodes }));
+  expect(result.success).toBe(true);
+});
+
+test("Cached parses aren't reused once the notebook uuid changes", () => {
+  clearParseCache();
+  const nodes = [mockBlock("A [[page]] link")];
+  const reference = () =>
+    toAtJson({ nodes }).annotations.find((a) => a.type === "reference")
+      ?.attributes;
+  expect(reference()).toEqual({ notebookPageId: "page", notebookUuid });
+  const otherUuid = v4();
+  window.logseq.settings!["uuid"] = otherUuid;
+  try {
+    expect(reference()).toEqual({
+      notebookPageId: "page",
+      notebookUuid: otherUuid,
+    });
+  } finally {
+    window.logseq.settings!["uuid"] = notebookUuid;
+  }
+});